@@ -0,0 +1,142 @@
+import { expect, test, vi, beforeEach, describe } from "vitest";
+import prisma from "@sightmap/db";
+import { reclaimExpiredTasks, runWorkerTick } from "./generationWorker";
+import { generateAndSaveInstructions } from "./instructionGeneration";
+
+vi.mock("./instructionGeneration", () => ({
+  generateAndSaveInstructions: vi.fn(),
+}));
+
+vi.mock("@sightmap/db", () => ({
+  default: {
+    generationJob: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    generationTask: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+const job = {
+  id: "job1",
+  status: "RUNNING",
+  concurrency: 2,
+  generator: null,
+  requestedById: "user1",
+};
+
+const task = (id: string, attempts = 0) => ({
+  id,
+  jobId: "job1",
+  pathId: `path-${id}`,
+  status: "PENDING",
+  attempts,
+});
+
+// The outcomes recorded for tasks this worker held a lease on, by task id
+const recordedOutcome = (id: string) =>
+  vi
+    .mocked(prisma.generationTask.updateMany)
+    .mock.calls.find(
+      ([args]) => args.where?.id === id && args.where.workerId !== undefined
+    )?.[0].data;
+
+describe("Generation worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.generationJob.findMany).mockResolvedValue([job] as never);
+    vi.mocked(prisma.generationJob.count).mockResolvedValue(0);
+    vi.mocked(prisma.generationTask.updateMany).mockResolvedValue({
+      count: 1,
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("starts due tasks up to the job's concurrency", async () => {
+    vi.mocked(prisma.generationTask.findMany)
+      .mockResolvedValueOnce([task("a"), task("b")] as never)
+      .mockResolvedValue([{ status: "COMPLETED" }] as never);
+
+    await Promise.all(await runWorkerTick());
+
+    expect(prisma.generationTask.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 2 })
+    );
+    expect(generateAndSaveInstructions).toHaveBeenCalledWith("path-a", {
+      generator: undefined,
+      requestedById: "user1",
+    });
+    expect(recordedOutcome("b")).toEqual({
+      status: "COMPLETED",
+      lastError: null,
+      workerId: null,
+      lockedUntil: null,
+    });
+    expect(prisma.generationJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "COMPLETED" }),
+      })
+    );
+  });
+
+  test("retries failures with a backoff until attempts run out", async () => {
+    vi.mocked(generateAndSaveInstructions).mockRejectedValue(
+      new Error("quota exceeded")
+    );
+    vi.mocked(prisma.generationTask.findMany)
+      .mockResolvedValueOnce([task("a"), task("b", 2)] as never)
+      .mockResolvedValue([{ status: "PENDING" }] as never);
+
+    const now = Date.now();
+    await Promise.all(await runWorkerTick());
+
+    const retried = recordedOutcome("a");
+    expect(retried).toMatchObject({
+      status: "PENDING",
+      lastError: "quota exceeded",
+    });
+    expect((retried?.nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(
+      now + 10_000
+    );
+    expect(recordedOutcome("b")).toEqual({
+      status: "FAILED",
+      lastError: "quota exceeded",
+      workerId: null,
+      lockedUntil: null,
+    });
+  });
+
+  test("claims tasks with a lease", async () => {
+    vi.mocked(prisma.generationTask.findMany)
+      .mockResolvedValueOnce([task("a")] as never)
+      .mockResolvedValue([{ status: "COMPLETED" }] as never);
+
+    await Promise.all(await runWorkerTick());
+
+    expect(prisma.generationTask.updateMany).toHaveBeenCalledWith({
+      where: { id: "a", status: "PENDING" },
+      data: expect.objectContaining({
+        status: "RUNNING",
+        workerId: expect.any(String),
+        lockedUntil: expect.any(Date),
+      }),
+    });
+  });
+
+  test("only reclaims running tasks whose lease has run out", async () => {
+    const now = new Date();
+    await reclaimExpiredTasks(now);
+
+    expect(prisma.generationTask.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: "RUNNING",
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      },
+      data: { status: "PENDING", workerId: null, lockedUntil: null },
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import prisma from "@sightmap/db";
+import type {
+  GenerationJob,
+  GenerationTask,
+} from "@sightmap/common/prisma/client";
+import {
+  MAX_TASK_ATTEMPTS,
+  countTasks,
+  isJobDone,
+  retryDelayMs,
+} from "@sightmap/common/generationJobs";
+import { generateAndSaveInstructions } from "./instructionGeneration";
+
+// How often the worker looks for tasks that are due
+const POLL_INTERVAL_MS = 2_000;
+
+// How long a claimed task stays with this worker without being renewed.
+// Leases are renewed well before they run out while a task is generating.
+const LEASE_MS = 60_000;
+const LEASE_RENEWAL_MS = LEASE_MS / 3;
+
+// Identifies this process's leases among other workers on the database
+const WORKER_ID = randomUUID();
+
+// Tasks this worker is generating right now, by job id
+const inFlight = new Map<string, Set<string>>();
+
+const leaseEnd = () => new Date(Date.now() + LEASE_MS);
+
+// The task as long as this worker still holds its lease
+const heldTask = (task: GenerationTask) => ({
+  id: task.id,
+  status: "RUNNING" as const,
+  workerId: WORKER_ID,
+});
+
+const released = { workerId: null, lockedUntil: null };
+
+// Mark finished jobs as completed. Jobs with tasks still in flight here
+// are left until those tasks have been recorded.
+async function finishJobIfDone(jobId: string) {
+  if (inFlight.get(jobId)?.size) return;
+  const tasks = await prisma.generationTask.findMany({
+    where: { jobId },
+    select: { status: true },
+  });
+  if (!isJobDone(countTasks(tasks))) return;
+  await prisma.generationJob.updateMany({
+    where: { id: jobId, status: { in: ["QUEUED", "RUNNING"] } },
+    data: { status: "COMPLETED", finishedAt: new Date() },
+  });
+}
+
+async function recordFailure(
+  job: GenerationJob,
+  task: GenerationTask,
+  attempts: number,
+  error: unknown
+) {
+  const lastError = error instanceof Error ? error.message : String(error);
+  // A cancelled job takes no more attempts
+  const cancelled =
+    (await prisma.generationJob.count({
+      where: { id: job.id, status: "CANCELLED" },
+    })) > 0;
+
+  await prisma.generationTask.updateMany({
+    where: heldTask(task),
+    data: {
+      ...released,
+      ...(cancelled
+        ? { status: "CANCELLED", lastError }
+        : attempts >= MAX_TASK_ATTEMPTS
+        ? { status: "FAILED", lastError }
+        : {
+            status: "PENDING",
+            lastError,
+            nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+          }),
+    },
+  });
+}
+
+async function runTask(job: GenerationJob, task: GenerationTask) {
+  const claimed = await prisma.generationTask.updateMany({
+    where: { id: task.id, status: "PENDING" },
+    data: {
+      status: "RUNNING",
+      attempts: { increment: 1 },
+      workerId: WORKER_ID,
+      lockedUntil: leaseEnd(),
+    },
+  });
+  if (claimed.count === 0) return;
+  if (job.status === "QUEUED") {
+    await prisma.generationJob.updateMany({
+      where: { id: job.id, status: "QUEUED" },
+      data: { status: "RUNNING" },
+    });
+  }
+
+  // Keep the lease while generating; a lost lease means another worker
+  // has taken the task, so this one's outcome is not recorded
+  const renewal = setInterval(() => {
+    prisma.generationTask
+      .updateMany({ where: heldTask(task), data: { lockedUntil: leaseEnd() } })
+      .catch((error) =>
+        console.error(`Could not renew the lease on task ${task.id}:`, error)
+      );
+  }, LEASE_RENEWAL_MS);
+
+  const attempts = task.attempts + 1;
+  try {
+    await generateAndSaveInstructions(task.pathId, {
+      generator: job.generator ?? undefined,
+      requestedById: job.requestedById,
+    });
+    await prisma.generationTask.updateMany({
+      where: heldTask(task),
+      data: { ...released, status: "COMPLETED", lastError: null },
+    });
+  } catch (error) {
+    console.error(`Generation failed for path ${task.pathId}:`, error);
+    await recordFailure(job, task, attempts, error);
+  } finally {
+    clearInterval(renewal);
+  }
+}
+
+// Run a task, then free its slot and see whether that finished the job.
+// Never rejects; database errors are logged and the task is retried once
+// its lease runs out at the latest.
+async function runAndRelease(
+  job: GenerationJob,
+  task: GenerationTask,
+  running: Set<string>
+) {
+  try {
+    await runTask(job, task);
+  } catch (error) {
+    console.error(`Could not record task ${task.id}:`, error);
+  } finally {
+    running.delete(task.id);
+    if (running.size === 0) inFlight.delete(job.id);
+  }
+  await finishJobIfDone(job.id).catch((error) =>
+    console.error(`Could not finish job ${job.id}:`, error)
+  );
+}
+
+// Start every due task that fits within its job's concurrency. Returns the
+// started tasks, which settle once each outcome has been recorded.
+export async function runWorkerTick(now = new Date()) {
+  await reclaimExpiredTasks(now);
+  const jobs = await prisma.generationJob.findMany({
+    where: { status: { in: ["QUEUED", "RUNNING"] } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const started: Promise<void>[] = [];
+  for (const job of jobs) {
+    const running = inFlight.get(job.id) ?? new Set<string>();
+    const free = job.concurrency - running.size;
+    const due =
+      free > 0
+        ? await prisma.generationTask.findMany({
+            where: {
+              jobId: job.id,
+              status: "PENDING",
+              nextAttemptAt: { lte: now },
+            },
+            orderBy: { createdAt: "asc" },
+            take: free,
+          })
+        : [];
+
+    if (due.length === 0) {
+      await finishJobIfDone(job.id);
+      continue;
+    }
+
+    inFlight.set(job.id, running);
+    for (const task of due) {
+      running.add(task.id);
+      started.push(runAndRelease(job, task, running));
+    }
+  }
+  return started;
+}
+
+// Tasks whose worker stopped without finishing them are picked up again
+// once their lease has run out. Running tasks without a lease were claimed
+// before leases were kept.
+export async function reclaimExpiredTasks(now = new Date()) {
+  await prisma.generationTask.updateMany({
+    where: {
+      status: "RUNNING",
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: { ...released, status: "PENDING" },
+  });
+}
+
+// Poll for due tasks until the returned function is called
+export function startGenerationWorker() {
+  let ticking = false;
+
+  const timer = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runWorkerTick();
+    } catch (error) {
+      console.error("Generation worker error:", error);
+    } finally {
+      ticking = false;
+    }
+  }, POLL_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
@@ -2,6 +2,7 @@
 import { expect, test, vi, beforeEach } from 'vitest'
 import app from './index'
 import { generateInstructions } from './instructionGeneration'
+import { auth } from '@sightmap/auth'
 
 // Mock external dependencies
 vi.mock('@hono/trpc-server')
@@ -14,6 +15,10 @@ vi.mock('./instructionGeneration', () => ({
 
 beforeEach(() => {
   vi.clearAllMocks()
+  // Signed in unless a test says otherwise
+  vi.mocked(auth.api.getSession).mockResolvedValue({
+    user: { id: 'user-1' },
+  } as never)
 })
 
 test('GET / returns OK', async () => {
@@ -38,10 +43,66 @@ test('POST /generate-instructions with valid pathId calls generateInstructions',
     })
   )
 
-  expect(generateInstructions).toHaveBeenCalledWith('test-path-123')
+  expect(generateInstructions).toHaveBeenCalledWith('test-path-123', {
+    generator: undefined,
+    requestedById: 'user-1',
+  })
   expect(response.status).toBe(200)
 })
 
+test('POST /generate-instructions without a session returns 401', async () => {
+  vi.mocked(auth.api.getSession).mockResolvedValue(null)
+
+  const response = await app.request(
+    new Request('http://localhost/generate-instructions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: JSON.stringify({ pathId: 'test-path-123' }) })
+    })
+  )
+
+  expect(generateInstructions).not.toHaveBeenCalled()
+  expect(response.status).toBe(401)
+})
+
+test('POST /generate-instructions passes a chosen generator on', async () => {
+  ;(generateInstructions as any).mockResolvedValue(new Response('stream'))
+
+  const requestBody = {
+    prompt: JSON.stringify({ pathId: 'test-path-123', generator: 'TEMPLATE' })
+  }
+
+  await app.request(
+    new Request('http://localhost/generate-instructions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody)
+    })
+  )
+
+  expect(generateInstructions).toHaveBeenCalledWith('test-path-123', {
+    generator: 'TEMPLATE',
+    requestedById: 'user-1',
+  })
+})
+
+test('POST /generate-instructions with an unknown generator returns 400', async () => {
+  const requestBody = {
+    prompt: JSON.stringify({ pathId: 'test-path-123', generator: 'ORACLE' })
+  }
+
+  const response = await app.request(
+    new Request('http://localhost/generate-instructions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody)
+    })
+  )
+
+  expect(generateInstructions).not.toHaveBeenCalled()
+  expect(response.status).toBe(400)
+})
+
 test('POST /generate-instructions with invalid JSON returns 500', async () => {
   const response = await app.request(
     new Request('http://localhost/generate-instructions', {
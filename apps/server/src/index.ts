@@ -8,6 +8,7 @@ import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { serveStatic } from "hono/bun";
 import { generateInstructions } from "./instructionGeneration";
+import { InstructionGenerator } from "@sightmap/common/prisma/enums";
 import path from "path";
 import { existsSync, mkdirSync } from "fs";
 
@@ -102,16 +103,26 @@ app.post("/upload-floor-image", async (c) => {
 });
 
 app.post("/generate-instructions", async (c) => {
+  // Instructions are saved as well as generated, so only editors may ask
+  const session = await auth.api.getSession({
+    headers: c.req.raw.headers,
+  });
+  if (!session) {
+    return c.json({ error: "Authentication required" }, 401);
+  }
+
   const body = await c.req.json();
 
-  // Handle useCompletion format - prompt wrapped in object
+  // The request is the useCompletion format: a JSON prompt in an object
   let pathId: string;
+  let generator: InstructionGenerator | undefined;
 
   try {
-    // useCompletion sends { prompt: "json string" }
+    // { prompt: "json string" }
     const promptString = body.prompt;
     const promptData = JSON.parse(promptString);
     pathId = promptData.pathId;
+    generator = promptData.generator;
   } catch (e) {
     return c.json({ error: "Invalid request format" }, 400);
   }
@@ -120,8 +131,19 @@ app.post("/generate-instructions", async (c) => {
     return c.json({ error: "pathId is required" }, 400);
   }
 
+  // Without one the building's generator is used
+  if (
+    generator !== undefined &&
+    !Object.values(InstructionGenerator).includes(generator)
+  ) {
+    return c.json({ error: "Unknown generator" }, 400);
+  }
+
   try {
-    return await generateInstructions(pathId);
+    return await generateInstructions(pathId, {
+      generator,
+      requestedById: session.user.id,
+    });
   } catch (error) {
     console.error("Error generating instructions:", error);
     return c.json({ error: "Failed to generate instructions" }, 500);
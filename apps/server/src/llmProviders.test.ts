@@ -0,0 +1,68 @@
+import { expect, test, describe } from "vitest";
+import { streamObject } from "ai";
+import { createLanguageModel, readLlmConfig } from "./llmProviders";
+import z from "zod";
+
+const prompt = `MOVEMENT SEGMENTS:
+Segment 0: Move forward {{8|5.6}} steps
+Segment 1: Turn right and move forward {{4|2.8}} steps
+
+Write one step for each movement segment.
+`;
+
+const schema = z.object({
+  steps: z.array(z.object({ segmentIndex: z.number(), text: z.string() })),
+});
+
+describe("LLM providers", () => {
+  test("defaults to Google's model", () => {
+    expect(readLlmConfig({})).toMatchObject({
+      provider: "google",
+      model: "gemma-3-27b-it",
+    });
+  });
+
+  test("reads an OpenAI-compatible endpoint", () => {
+    expect(
+      readLlmConfig({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_MODEL: "qwen2.5",
+        LLM_BASE_URL: "http://localhost:11434/v1",
+      })
+    ).toEqual({
+      provider: "openai-compatible",
+      model: "qwen2.5",
+      baseURL: "http://localhost:11434/v1",
+      apiKey: undefined,
+    });
+  });
+
+  test("rejects unknown providers and missing base URLs", () => {
+    expect(() => readLlmConfig({ LLM_PROVIDER: "oracle" })).toThrow(
+      'Unknown LLM_PROVIDER "oracle"'
+    );
+    expect(() =>
+      readLlmConfig({ LLM_PROVIDER: "openai-compatible" })
+    ).toThrow("LLM_BASE_URL");
+  });
+
+  test("mock model answers with the prompt's segments", async () => {
+    const result = streamObject({
+      model: createLanguageModel(readLlmConfig({ LLM_PROVIDER: "mock" })),
+      schema,
+      prompt,
+    });
+
+    // The object only settles once the stream has been read
+    for await (const _ of result.partialObjectStream);
+    expect(await result.object).toEqual({
+      steps: [
+        { segmentIndex: 0, text: "Move forward {{8|5.6}} steps" },
+        {
+          segmentIndex: 1,
+          text: "Turn right and move forward {{4|2.8}} steps",
+        },
+      ],
+    });
+  });
+});
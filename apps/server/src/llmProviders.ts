@@ -0,0 +1,128 @@
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { simulateReadableStream, type LanguageModel } from "ai";
+
+// Models that write descriptive instructions, chosen with environment
+// variables:
+//   LLM_PROVIDER  google (default), openai-compatible or mock
+//   LLM_MODEL     model id; each provider has a default
+//   LLM_BASE_URL  base URL of an OpenAI-compatible server, e.g. a local
+//                 Ollama at http://localhost:11434/v1
+//   LLM_API_KEY   API key for that server, if it wants one
+// Google reads its key from GOOGLE_GENERATIVE_AI_API_KEY.
+
+export const LLM_PROVIDERS = ["google", "openai-compatible", "mock"] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  google: "gemma-3-27b-it",
+  "openai-compatible": "llama3.1",
+  mock: "segments",
+};
+
+export function readLlmConfig(
+  env: Record<string, string | undefined> = process.env
+): LlmConfig {
+  const provider = (env.LLM_PROVIDER || "google") as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+  if (provider === "openai-compatible" && !env.LLM_BASE_URL) {
+    throw new Error("LLM_BASE_URL is required for openai-compatible");
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    baseURL: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+  };
+}
+
+// Text of every message in a prompt, in order
+const promptText = (
+  prompt: Parameters<LanguageModelV2["doStream"]>[0]["prompt"]
+) =>
+  prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("")
+    )
+    .join("\n");
+
+// The mock model's answer: the prompt's movement segments copied as the
+// steps, so the output is the same every time
+export function mockCompletion(prompt: string) {
+  const steps = [...prompt.matchAll(/^Segment (\d+): (.*)$/gm)].map(
+    ([, segmentIndex, text]) => ({
+      segmentIndex: Number(segmentIndex),
+      text,
+    })
+  );
+  return JSON.stringify({ steps });
+}
+
+function createMockModel(modelId: string): LanguageModelV2 {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async (options) => ({
+      content: [
+        { type: "text", text: mockCompletion(promptText(options.prompt)) },
+      ],
+      finishReason: "stop",
+      usage,
+      warnings: [],
+    }),
+    doStream: async (options) => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: "stream-start", warnings: [] },
+          { type: "text-start", id: "mock" },
+          {
+            type: "text-delta",
+            id: "mock",
+            delta: mockCompletion(promptText(options.prompt)),
+          },
+          { type: "text-end", id: "mock" },
+          { type: "finish", finishReason: "stop", usage },
+        ],
+      }),
+    }),
+  };
+}
+
+const PROVIDERS: Record<
+  LlmProviderName,
+  (config: LlmConfig) => LanguageModelV2
+> = {
+  google: (config) => google(config.model),
+  "openai-compatible": (config) =>
+    createOpenAICompatible({
+      name: "openai-compatible",
+      baseURL: config.baseURL!,
+      apiKey: config.apiKey,
+    })(config.model),
+  mock: (config) => createMockModel(config.model),
+};
+
+export function createLanguageModel(config: LlmConfig): LanguageModel {
+  return PROVIDERS[config.provider](config);
+}
@@ -0,0 +1,8 @@
+import app from "./index";
+import { startGenerationWorker } from "./generationWorker";
+
+// Serves the app and works through queued bulk generation jobs in the
+// background. Importing ./index on its own starts no worker.
+startGenerationWorker();
+
+export default app;
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { MapPin, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConnectorType } from "@sightmap/common/prisma/enums";
+import { toTitleCase } from "@sightmap/common";
+import type { RouterOutputs } from "@/utils/trpc";
+
+type Connector = RouterOutputs["connector"]["getByFloor"][number];
+
+type Position = { x: number; y: number };
+
+interface ConnectorPanelProps {
+  floorId: string;
+  connectors: Connector[];
+  // Other floors of the building the connector can lead to
+  floors: { id: string; level: number }[];
+  pendingPosition: Position | null;
+  onCreate: (connector: {
+    type: ConnectorType;
+    name: string;
+    toFloorId: string;
+  }) => void;
+  onCancel: () => void;
+  onDelete: (connectorId: string) => void;
+  // Move the connector's landing on this floor to the pending position
+  onMoveLanding: (connectorId: string) => void;
+}
+
+export default function ConnectorPanel({
+  floorId,
+  connectors,
+  floors,
+  pendingPosition,
+  onCreate,
+  onCancel,
+  onDelete,
+  onMoveLanding,
+}: ConnectorPanelProps) {
+  const [type, setType] = useState<ConnectorType>("STAIRS");
+  const [name, setName] = useState("");
+  const [toFloorId, setToFloorId] = useState<string>("");
+
+  const otherFloors = floors.filter((floor) => floor.id !== floorId);
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-gray-200 pt-3">
+      <span className="text-sm font-medium">Stairs & Elevators</span>
+
+      {pendingPosition ? (
+        <div className="flex flex-col gap-2">
+          <Select
+            value={type}
+            onValueChange={(value) => setType(value as ConnectorType)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ConnectorType).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {toTitleCase(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={toFloorId} onValueChange={setToFloorId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Leads to floor..." />
+            </SelectTrigger>
+            <SelectContent>
+              {otherFloors.map((floor) => (
+                <SelectItem key={floor.id} value={floor.id}>
+                  Floor {floor.level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={!toFloorId}
+              onClick={() => {
+                onCreate({ type, name: name.trim(), toFloorId });
+                setName("");
+              }}
+            >
+              Add
+            </Button>
+            <Button size="sm" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {otherFloors.length > 0
+            ? "Shift+click to place stairs or an elevator, or to move a landing."
+            : "Add another floor to this building to link floors."}
+        </p>
+      )}
+
+      {connectors.map((connector) => {
+        const otherFloor =
+          connector.fromFloorId === floorId
+            ? connector.toFloor
+            : connector.fromFloor;
+        const isPlaced =
+          connector.fromFloorId === floorId || connector.toPlaced;
+        return (
+          <div
+            key={connector.id}
+            className="flex items-center justify-between text-xs"
+          >
+            <span>
+              {toTitleCase(connector.type)}
+              {connector.name && ` (${connector.name})`} to floor{" "}
+              {otherFloor.level}
+              {!isPlaced && (
+                <span className="text-orange-600">
+                  {" "}
+                  (not placed on this floor)
+                </span>
+              )}
+            </span>
+            <div className="flex">
+              {pendingPosition && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Move the landing here"
+                  onClick={() => onMoveLanding(connector.id)}
+                >
+                  <MapPin className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onDelete(connector.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
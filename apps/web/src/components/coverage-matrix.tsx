@@ -0,0 +1,162 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
+import { Card, CardContent } from "@/components/ui/card";
+import type { CoverageStatus } from "@sightmap/common/coverage";
+
+type Coverage = RouterOutputs["floor"]["getCoverage"];
+
+const STATUS_STYLES: Record<
+  CoverageStatus,
+  { className: string; label: string }
+> = {
+  missing: { className: "bg-gray-200", label: "No path" },
+  no_instructions: {
+    className: "bg-amber-300",
+    label: "Path without instructions",
+  },
+  stale: { className: "bg-orange-500", label: "Instructions out of date" },
+  complete: { className: "bg-green-500", label: "Up to date" },
+};
+
+interface CoverageMatrixProps {
+  floorId: string;
+  // Called for a pair without a path
+  onCreatePath: (fromRoomId: string, toRoomId: string) => void;
+  // Called for a pair that already has a path
+  onPathSelect: (pathId: string) => void;
+}
+
+export default function CoverageMatrix({
+  floorId,
+  onCreatePath,
+  onPathSelect,
+}: CoverageMatrixProps) {
+  const coverage = useQuery(
+    trpc.floor.getCoverage.queryOptions({ floorId })
+  );
+
+  if (coverage.isError) {
+    return (
+      <p className="py-8 text-center text-sm text-gray-500">
+        {coverage.error.data?.code === "UNAUTHORIZED"
+          ? "Sign in to see path coverage."
+          : "Could not load path coverage."}
+      </p>
+    );
+  }
+
+  if (coverage.isLoading || !coverage.data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const { rooms, cells } = coverage.data;
+  const cellsByPair = new Map(
+    cells.map((cell) => [`${cell.fromRoomId}|${cell.toRoomId}`, cell])
+  );
+  const counts = cells.reduce(
+    (acc, cell) => ({ ...acc, [cell.status]: acc[cell.status] + 1 }),
+    { missing: 0, no_instructions: 0, stale: 0, complete: 0 } as Record<
+      CoverageStatus,
+      number
+    >
+  );
+
+  const handleCellClick = (cell: Coverage["cells"][number]) => {
+    if (cell.pathId) {
+      onPathSelect(cell.pathId);
+    } else {
+      onCreatePath(cell.fromRoomId, cell.toRoomId);
+    }
+  };
+
+  if (rooms.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add at least two rooms to see path coverage
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="space-y-2 text-xs">
+          {(Object.keys(STATUS_STYLES) as CoverageStatus[]).map(
+            (status) => (
+              <div key={status} className="flex items-center gap-2">
+                <span
+                  className={`h-3 w-3 rounded-sm ${STATUS_STYLES[status].className}`}
+                />
+                <span className="flex-1">
+                  {STATUS_STYLES[status].label}
+                </span>
+                <span className="font-medium">{counts[status]}</span>
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-gray-500">
+        Rows are starting rooms, columns are destinations. Click an
+        empty cell to draw that path.
+      </p>
+
+      <div className="overflow-auto">
+        <table className="border-separate border-spacing-0.5 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {rooms.map((room) => (
+                <th
+                  key={room.id}
+                  title={room.name}
+                  className="font-medium text-gray-600 max-w-6 truncate"
+                >
+                  {room.number}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rooms.map((from) => (
+              <tr key={from.id}>
+                <th
+                  title={from.name}
+                  className="pr-1 text-right font-medium text-gray-600 max-w-24 truncate"
+                >
+                  {from.number}
+                </th>
+                {rooms.map((to) => {
+                  const cell = cellsByPair.get(`${from.id}|${to.id}`);
+                  if (!cell) {
+                    return <td key={to.id} className="h-5 w-5" />;
+                  }
+                  return (
+                    <td key={to.id} className="p-0">
+                      <button
+                        type="button"
+                        title={`${from.name} → ${to.name}: ${
+                          STATUS_STYLES[cell.status].label
+                        }`}
+                        onClick={() => handleCellClick(cell)}
+                        className={`block h-5 w-5 rounded-sm cursor-pointer hover:ring-2 hover:ring-blue-500 ${
+                          STATUS_STYLES[cell.status].className
+                        }`}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
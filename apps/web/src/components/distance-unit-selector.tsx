@@ -0,0 +1,66 @@
+import { useState, useEffect } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DistanceUnit } from "@sightmap/common/prisma/enums";
+import { DISTANCE_UNIT_LABELS } from "@sightmap/common/units";
+
+interface DistanceUnitSelectorProps {
+  value?: DistanceUnit;
+  onChange: (unit: DistanceUnit) => void;
+  className?: string;
+}
+
+export const DISTANCE_UNIT_STORAGE_KEY = "sightmap-distance-unit";
+
+// Unit stored for guests, or null when none has been picked
+export function getStoredDistanceUnit(): DistanceUnit | null {
+  const stored = localStorage.getItem(DISTANCE_UNIT_STORAGE_KEY);
+  return stored &&
+    Object.values(DistanceUnit).includes(stored as DistanceUnit)
+    ? (stored as DistanceUnit)
+    : null;
+}
+
+export default function DistanceUnitSelector({
+  value,
+  onChange,
+  className = "",
+}: DistanceUnitSelectorProps) {
+  const [unit, setUnit] = useState<DistanceUnit>(value || "STEPS");
+
+  // Update when value prop changes
+  useEffect(() => {
+    if (value && value !== unit) {
+      setUnit(value);
+    }
+  }, [value]);
+
+  const handleChange = (newUnit: DistanceUnit) => {
+    setUnit(newUnit);
+    localStorage.setItem(DISTANCE_UNIT_STORAGE_KEY, newUnit);
+    onChange(newUnit);
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <span className="text-sm font-medium">Distances:</span>
+      <Select value={unit} onValueChange={handleChange}>
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(DistanceUnit).map((option) => (
+            <SelectItem key={option} value={option}>
+              {DISTANCE_UNIT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
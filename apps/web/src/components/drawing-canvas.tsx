@@ -15,6 +15,7 @@ import {
   Group,
   Text,
   Image,
+  Circle,
 } from "react-konva";
 import { Button } from "@/components/ui/button";
 import { Save, Upload, Trash2 } from "lucide-react";
@@ -25,6 +26,9 @@ import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import ConnectorPanel from "@/components/connector-panel";
+import ScaleCalibrationPanel from "@/components/scale-calibration-panel";
+import type { PathValidationIssue } from "@sightmap/common/pathValidation";
 
 // Types
 type Room = RouterOutputs["floor"]["getFloorData"]["rooms"][number];
@@ -42,8 +46,22 @@ type PendingRoom = {
 type FloorImage =
   RouterOutputs["floorImage"]["getFloorImages"][number];
 
+type CorridorGraph = RouterOutputs["corridor"]["getGraph"];
+
+type Connector = RouterOutputs["connector"]["getByFloor"][number];
+
+type ConnectorInput = Omit<
+  RouterInputs["connector"]["create"],
+  "fromFloorId" | "fromX" | "fromY" | "toX" | "toY"
+>;
+
 type RenderableRoom = Room | PendingRoom;
 
+type RejectedPath = {
+  anchors: Position[];
+  issues: PathValidationIssue[];
+};
+
 type Position = { x: number; y: number };
 
 type PathCreationState = {
@@ -77,6 +95,16 @@ const COLORS = {
     pendingStroke: "rgba(210, 180, 140, 0.7)",
   },
   selection: "#007bff",
+  corridor: {
+    node: "#1e90ff",
+    selectedNode: "#ff8c00",
+    doorNode: "#00a86b",
+    edge: "rgba(30, 144, 255, 0.6)",
+    heavyDoor: "#ea580c",
+    connector: "#8a2be2",
+  },
+  invalid: "#dc2626",
+  calibration: "#d946ef",
   preview: {
     wall: "rgba(208, 208, 208, 0.3)",
     interior: "rgba(254, 254, 254, 0.5)",
@@ -119,6 +147,28 @@ const clamp = (value: number, min: number, max: number): number =>
 const getDistance = (p1: Position, p2: Position): number =>
   Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 
+// Distance from a point to the nearest point of the segment a-b
+const getDistanceToSegment = (
+  point: Position,
+  a: Position,
+  b: Position
+): number => {
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSquared === 0) return getDistance(point, a);
+  const t = Math.max(
+    0,
+    Math.min(
+      1,
+      ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) /
+        lengthSquared
+    )
+  );
+  return getDistance(point, {
+    x: a.x + t * (b.x - a.x),
+    y: a.y + t * (b.y - a.y),
+  });
+};
+
 const getCenter = (p1: Position, p2: Position): Position => ({
   x: (p1.x + p2.x) / 2,
   y: (p1.y + p2.y) / 2,
@@ -834,6 +884,226 @@ const PathVisualization = ({
   );
 };
 
+// Corridor graph component
+const CorridorGraphLayer = ({
+  graph,
+  selectedNodeId,
+  gridSize,
+  isEditing,
+}: {
+  graph: CorridorGraph;
+  selectedNodeId: string | null;
+  gridSize: number;
+  isEditing: boolean;
+}) => {
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  return (
+    <Group opacity={isEditing ? 1 : 0.35} listening={false}>
+      {graph.edges.map((edge) => {
+        const from = nodesById.get(edge.fromNodeId);
+        const to = nodesById.get(edge.toNodeId);
+        if (!from || !to) return null;
+        return (
+          <Line
+            key={edge.id}
+            points={[from.x, from.y, to.x, to.y]}
+            stroke={
+              edge.heavyDoor
+                ? COLORS.corridor.heavyDoor
+                : COLORS.corridor.edge
+            }
+            strokeWidth={gridSize / 3}
+            dash={edge.heavyDoor ? [gridSize / 2, gridSize / 4] : undefined}
+          />
+        );
+      })}
+      {graph.nodes.map((node) => (
+        <Circle
+          key={node.id}
+          x={node.x}
+          y={node.y}
+          radius={
+            node.id === selectedNodeId ? gridSize / 2.5 : gridSize / 4
+          }
+          fill={
+            node.id === selectedNodeId
+              ? COLORS.corridor.selectedNode
+              : node.roomId
+              ? COLORS.corridor.doorNode
+              : COLORS.corridor.node
+          }
+        />
+      ))}
+    </Group>
+  );
+};
+
+// Stairs, elevators and ramps landing on this floor
+const ConnectorLayer = ({
+  connectors,
+  floorId,
+  pendingPosition,
+  gridSize,
+}: {
+  connectors: Connector[];
+  floorId: string;
+  pendingPosition: Position | null;
+  gridSize: number;
+}) => {
+  const landings = connectors.map((connector) =>
+    connector.fromFloorId === floorId
+      ? {
+          id: connector.id,
+          x: connector.fromX,
+          y: connector.fromY,
+          placed: true,
+        }
+      : {
+          id: connector.id,
+          x: connector.toX,
+          y: connector.toY,
+          placed: connector.toPlaced,
+        }
+  );
+
+  return (
+    <Group listening={false}>
+      {/* A landing still to be placed is outlined where it was created on
+          the other floor */}
+      {landings.map((landing) => (
+        <Rect
+          key={landing.id}
+          x={landing.x - gridSize / 2}
+          y={landing.y - gridSize / 2}
+          width={gridSize}
+          height={gridSize}
+          fill={landing.placed ? COLORS.corridor.connector : undefined}
+          stroke={landing.placed ? undefined : COLORS.corridor.connector}
+          strokeWidth={2}
+          cornerRadius={gridSize / 5}
+        />
+      ))}
+      {pendingPosition && (
+        <Rect
+          x={pendingPosition.x - gridSize / 2}
+          y={pendingPosition.y - gridSize / 2}
+          width={gridSize}
+          height={gridSize}
+          stroke={COLORS.corridor.connector}
+          strokeWidth={2}
+          dash={[4, 4]}
+          cornerRadius={gridSize / 5}
+        />
+      )}
+    </Group>
+  );
+};
+
+// A path the server rejected, with its problems marked in red
+const RejectedPathOverlay = ({
+  path,
+  rooms,
+  gridSize,
+}: {
+  path: RejectedPath;
+  rooms: Room[];
+  gridSize: number;
+}) => {
+  const badSegments = new Set<number>();
+  const badAnchors = new Set<number>();
+  const badRoomIds = new Set<string>();
+  for (const issue of path.issues) {
+    if (issue.code === "CROSSES_ROOM") {
+      badSegments.add(issue.segmentIndex);
+      badRoomIds.add(issue.roomId);
+    } else if (issue.code !== "TOO_FEW_ANCHORS") {
+      badAnchors.add(issue.anchorIndex);
+    }
+  }
+
+  return (
+    <Group listening={false}>
+      {rooms
+        .filter((room) => badRoomIds.has(room.id))
+        .map((room) => (
+          <Rect
+            key={room.id}
+            x={room.x}
+            y={room.y}
+            width={room.width}
+            height={room.height}
+            stroke={COLORS.invalid}
+            strokeWidth={gridSize / 5}
+            dash={[gridSize / 2, gridSize / 4]}
+          />
+        ))}
+      {path.anchors.slice(0, -1).map((anchor, index) => {
+        const next = path.anchors[index + 1];
+        return (
+          <Line
+            key={`segment-${index}`}
+            points={[anchor.x, anchor.y, next.x, next.y]}
+            stroke={COLORS.invalid}
+            strokeWidth={badSegments.has(index) ? gridSize / 2 : 2}
+            opacity={badSegments.has(index) ? 0.8 : 0.5}
+            dash={badSegments.has(index) ? undefined : [4, 4]}
+            lineCap="round"
+          />
+        );
+      })}
+      {path.anchors.map((anchor, index) =>
+        badAnchors.has(index) ? (
+          <Circle
+            key={`anchor-${index}`}
+            x={anchor.x}
+            y={anchor.y}
+            radius={gridSize / 2}
+            stroke={COLORS.invalid}
+            strokeWidth={3}
+          />
+        ) : null
+      )}
+    </Group>
+  );
+};
+
+// Line marked with the scale calibration tool
+const CalibrationLine = ({
+  points,
+  mousePos,
+  gridSize,
+}: {
+  points: Position[];
+  mousePos?: Position;
+  gridSize: number;
+}) => {
+  const [from, to = mousePos] = points;
+  if (!from) return null;
+
+  return (
+    <Group listening={false}>
+      {to && (
+        <Line
+          points={[from.x, from.y, to.x, to.y]}
+          stroke={COLORS.calibration}
+          strokeWidth={2}
+          dash={points.length < 2 ? [6, 4] : undefined}
+        />
+      )}
+      {points.map((point, index) => (
+        <Circle
+          key={index}
+          x={point.x}
+          y={point.y}
+          radius={gridSize / 5}
+          fill={COLORS.calibration}
+        />
+      ))}
+    </Group>
+  );
+};
+
 // Path creation preview component
 const PathCreationPreview = ({
   points,
@@ -911,6 +1181,10 @@ const PathCreationPreview = ({
 const DrawingCanvas = forwardRef<
   {
     startPathCreation: (sourceRoomId: string) => void;
+    startPathCreationForPair: (
+      sourceRoomId: string,
+      destinationRoomId: string
+    ) => void;
     cancelPathCreation: () => void;
   },
   {
@@ -969,6 +1243,38 @@ const DrawingCanvas = forwardRef<
       }
     ) => void;
     onImageDelete: (id: string) => void;
+    // Corridor graph props
+    corridorGraph: CorridorGraph;
+    onCorridorNodeCreate: (
+      x: number,
+      y: number,
+      roomId?: string,
+      connectToNodeId?: string
+    ) => Promise<{ id: string }>;
+    onCorridorEdgeCreate: (fromNodeId: string, toNodeId: string) => void;
+    onCorridorNodeDelete: (nodeId: string) => void;
+    onCorridorEdgeHeavyDoorChange: (
+      edgeId: string,
+      heavyDoor: boolean
+    ) => void;
+    // Vertical connector props
+    connectors: Connector[];
+    buildingFloors: { id: string; level: number }[];
+    onConnectorCreate: (
+      connector: ConnectorInput & Position
+    ) => void;
+    onConnectorDelete: (connectorId: string) => void;
+    onConnectorLandingMove: (connectorId: string, position: Position) => void;
+    // Path rejected by validation
+    rejectedPath?: RejectedPath | null;
+    onRejectedPathDismiss?: () => void;
+    // Floor scale calibration
+    pixelsPerMetre: number | null;
+    onScaleCalibrate: (
+      from: Position,
+      to: Position,
+      metres: number
+    ) => void;
   }
 >(
   (
@@ -994,6 +1300,20 @@ const DrawingCanvas = forwardRef<
       onImageCreate,
       onImageUpdate,
       onImageDelete,
+      corridorGraph,
+      onCorridorNodeCreate,
+      onCorridorEdgeCreate,
+      onCorridorNodeDelete,
+      onCorridorEdgeHeavyDoorChange,
+      connectors,
+      buildingFloors,
+      onConnectorCreate,
+      onConnectorDelete,
+      onConnectorLandingMove,
+      rejectedPath,
+      onRejectedPathDismiss,
+      pixelsPerMetre,
+      onScaleCalibrate,
     },
     ref
   ) => {
@@ -1021,15 +1341,48 @@ const DrawingCanvas = forwardRef<
       onPathPointsChange?.([]);
     }, [onPathStateChange, onPathPointsChange]);
 
+    // Skip destination selection and start drawing from the source door
+    const startPathCreationForPair = useCallback(
+      (sourceRoomId: string, destinationRoomId: string) => {
+        const sourceRoom = rooms.find((r) => r.id === sourceRoomId);
+        if (!sourceRoom) return;
+
+        onPathDestinationRoomChange?.(destinationRoomId);
+        onPathStateChange?.("drawing_path");
+        onPathPointsChange?.([
+          snapToGridCenter(
+            {
+              x: sourceRoom.x + sourceRoom.doorX,
+              y: sourceRoom.y + sourceRoom.doorY,
+            },
+            gridSize
+          ),
+        ]);
+      },
+      [
+        rooms,
+        gridSize,
+        onPathDestinationRoomChange,
+        onPathStateChange,
+        onPathPointsChange,
+      ]
+    );
+
     // Expose functions to parent
     useImperativeHandle(
       ref,
       () => ({
         startPathCreation,
+        startPathCreationForPair,
         getPathCreationState,
         cancelPathCreation,
       }),
-      [startPathCreation, getPathCreationState, cancelPathCreation]
+      [
+        startPathCreation,
+        startPathCreationForPair,
+        getPathCreationState,
+        cancelPathCreation,
+      ]
     );
 
     // Mouse position for predictive line
@@ -1049,6 +1402,19 @@ const DrawingCanvas = forwardRef<
     >(new Map());
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Corridor-related state
+    const [corridorMode, setCorridorMode] = useState(false);
+    const [selectedCorridorNodeId, setSelectedCorridorNodeId] =
+      useState<string | null>(null);
+    const [pendingConnectorPos, setPendingConnectorPos] =
+      useState<Position | null>(null);
+
+    // Scale calibration state
+    const [scaleMode, setScaleMode] = useState(false);
+    const [calibrationPoints, setCalibrationPoints] = useState<
+      Position[]
+    >([]);
+
     // Configuration
     const config = useMemo<DrawingCanvasConfig>(
       () => ({
@@ -1099,6 +1465,20 @@ const DrawingCanvas = forwardRef<
     // Keyboard event handling for delete
     useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
+        if (corridorMode) {
+          if (
+            (e.key === "Delete" || e.key === "Backspace") &&
+            selectedCorridorNodeId &&
+            (e.metaKey || e.ctrlKey)
+          ) {
+            onCorridorNodeDelete(selectedCorridorNodeId);
+            setSelectedCorridorNodeId(null);
+          } else if (e.key === "Escape") {
+            setSelectedCorridorNodeId(null);
+          }
+          return;
+        }
+
         if (
           (e.key === "Delete" || e.key === "Backspace") &&
           selectedRoomId &&
@@ -1111,7 +1491,13 @@ const DrawingCanvas = forwardRef<
       window.addEventListener("keydown", handleKeyDown);
       return () =>
         window.removeEventListener("keydown", handleKeyDown);
-    }, [selectedRoomId, deleteSelectedRoom]);
+    }, [
+      selectedRoomId,
+      deleteSelectedRoom,
+      corridorMode,
+      selectedCorridorNodeId,
+      onCorridorNodeDelete,
+    ]);
 
     // Handle window resize to update stage dimensions
     useEffect(() => {
@@ -1236,6 +1622,43 @@ const DrawingCanvas = forwardRef<
         return;
       }
 
+      if (scaleMode) {
+        // A third click starts a new line
+        setCalibrationPoints((points) =>
+          points.length >= 2 ? [worldPos] : [...points, worldPos]
+        );
+        return;
+      }
+
+      if (corridorMode) {
+        if (e.evt.shiftKey) {
+          // Shift+click places a stairs or elevator landing
+          setPendingConnectorPos(snapToGridCenter(worldPos, gridSize));
+          return;
+        }
+        if (e.evt.altKey) {
+          // Alt+click marks or clears a heavy door on a corridor
+          const nodesById = new Map(
+            corridorGraph.nodes.map((node) => [node.id, node])
+          );
+          const edge = corridorGraph.edges.find((edge) => {
+            const from = nodesById.get(edge.fromNodeId);
+            const to = nodesById.get(edge.toNodeId);
+            return (
+              from &&
+              to &&
+              getDistanceToSegment(worldPos, from, to) <= gridSize / 2
+            );
+          });
+          if (edge) {
+            onCorridorEdgeHeavyDoorChange(edge.id, !edge.heavyDoor);
+          }
+          return;
+        }
+        handleCorridorMouseDown(worldPos);
+        return;
+      }
+
       // Find clicked room (saved or pending) on border
       const clickedRoom = [...rooms, ...pendingRooms].find((room) =>
         isOnRoomBorder(worldPos, room, gridSize)
@@ -1305,6 +1728,70 @@ const DrawingCanvas = forwardRef<
       }
     };
 
+    const handleCorridorMouseDown = useCallback(
+      async (worldPos: Position) => {
+        const snappedPos = snapToGridCenter(worldPos, gridSize);
+
+        // Clicking an existing node selects it, connecting it to the
+        // previously selected node
+        const clickedNode = corridorGraph.nodes.find(
+          (node) => getDistance(node, worldPos) <= gridSize / 2
+        );
+        if (clickedNode) {
+          if (
+            selectedCorridorNodeId &&
+            selectedCorridorNodeId !== clickedNode.id
+          ) {
+            onCorridorEdgeCreate(selectedCorridorNodeId, clickedNode.id);
+          }
+          setSelectedCorridorNodeId(clickedNode.id);
+          return;
+        }
+
+        // Clicking a room's door adds a node linked to that room
+        const doorRoom = rooms.find(
+          (room) =>
+            isOnRoomBorder(worldPos, room, gridSize) &&
+            snapToGridCenter(
+              { x: room.x + room.doorX, y: room.y + room.doorY },
+              gridSize
+            ).x === snappedPos.x &&
+            snapToGridCenter(
+              { x: room.x + room.doorX, y: room.y + room.doorY },
+              gridSize
+            ).y === snappedPos.y
+        );
+
+        // Corridors never run through rooms or their walls
+        if (
+          !doorRoom &&
+          rooms.some(
+            (room) =>
+              isInRoomInterior(worldPos, room) ||
+              isOnRoomBorder(worldPos, room, gridSize)
+          )
+        ) {
+          return;
+        }
+
+        const node = await onCorridorNodeCreate(
+          snappedPos.x,
+          snappedPos.y,
+          doorRoom?.id,
+          selectedCorridorNodeId ?? undefined
+        );
+        setSelectedCorridorNodeId(node.id);
+      },
+      [
+        gridSize,
+        rooms,
+        corridorGraph,
+        selectedCorridorNodeId,
+        onCorridorNodeCreate,
+        onCorridorEdgeCreate,
+      ]
+    );
+
     const handlePathMouseDown = useCallback(
       (worldPos: Position) => {
         const snappedPos = snapToGridCenter(worldPos, gridSize);
@@ -1516,10 +2003,128 @@ const DrawingCanvas = forwardRef<
               onCheckedChange={(checked) => {
                 setImageManipulationMode(checked);
                 if (!checked) setSelectedImageId(null);
+                if (checked) {
+                  setCorridorMode(false);
+                  setScaleMode(false);
+                }
+              }}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label
+              htmlFor="corridor-mode"
+              className="text-sm font-medium"
+            >
+              Corridor Mode
+            </Label>
+            <Switch
+              id="corridor-mode"
+              checked={corridorMode}
+              onCheckedChange={(checked) => {
+                setCorridorMode(checked);
+                setSelectedCorridorNodeId(null);
+                setPendingConnectorPos(null);
+                if (checked) {
+                  setImageManipulationMode(false);
+                  setSelectedImageId(null);
+                  setScaleMode(false);
+                }
+              }}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label
+              htmlFor="scale-mode"
+              className="text-sm font-medium"
+            >
+              Scale Mode
+            </Label>
+            <Switch
+              id="scale-mode"
+              checked={scaleMode}
+              onCheckedChange={(checked) => {
+                setScaleMode(checked);
+                setCalibrationPoints([]);
+                if (checked) {
+                  setImageManipulationMode(false);
+                  setSelectedImageId(null);
+                  setCorridorMode(false);
+                  setSelectedCorridorNodeId(null);
+                  setPendingConnectorPos(null);
+                }
               }}
             />
           </div>
 
+          {scaleMode && (
+            <ScaleCalibrationPanel
+              pixelsPerMetre={pixelsPerMetre}
+              points={calibrationPoints}
+              onSave={(metres) => {
+                const [from, to] = calibrationPoints;
+                if (!from || !to) return;
+                onScaleCalibrate(from, to, metres);
+                setCalibrationPoints([]);
+              }}
+              onCancel={() => setCalibrationPoints([])}
+            />
+          )}
+
+          {corridorMode && (
+            <p className="text-xs text-gray-500">
+              Click to add corridor nodes, click a door to link a room,
+              click two nodes to connect them. Alt+click a corridor to
+              mark a heavy door on it. Ctrl/Cmd+Delete removes the
+              selected node.
+            </p>
+          )}
+
+          {rejectedPath && (
+            <div className="flex flex-col gap-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+              <span className="font-medium">Path not saved</span>
+              <ul className="list-disc pl-4">
+                {rejectedPath.issues.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+              {onRejectedPathDismiss && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={onRejectedPathDismiss}
+                >
+                  Dismiss
+                </Button>
+              )}
+            </div>
+          )}
+
+          {corridorMode && (
+            <ConnectorPanel
+              floorId={floorId}
+              connectors={connectors}
+              floors={buildingFloors}
+              pendingPosition={pendingConnectorPos}
+              onCreate={(connector) => {
+                if (!pendingConnectorPos) return;
+                onConnectorCreate({
+                  ...connector,
+                  ...pendingConnectorPos,
+                });
+                setPendingConnectorPos(null);
+              }}
+              onCancel={() => setPendingConnectorPos(null)}
+              onDelete={onConnectorDelete}
+              onMoveLanding={(connectorId) => {
+                if (!pendingConnectorPos) return;
+                onConnectorLandingMove(connectorId, pendingConnectorPos);
+                setPendingConnectorPos(null);
+              }}
+            />
+          )}
+
           <div className="flex gap-2">
             <Input
               type="file"
@@ -1664,7 +2269,7 @@ const DrawingCanvas = forwardRef<
                       handleRoomDragEndWrapper(e, room)
                     }
                     onClick={() => {
-                      if (pathCreationState === "idle") {
+                      if (pathCreationState === "idle" && !corridorMode) {
                         onRoomSelect(room.id);
                       }
                     }}
@@ -1742,6 +2347,22 @@ const DrawingCanvas = forwardRef<
                   );
                 })}
 
+                {/* Corridor graph */}
+                <CorridorGraphLayer
+                  graph={corridorGraph}
+                  selectedNodeId={selectedCorridorNodeId}
+                  gridSize={gridSize}
+                  isEditing={corridorMode}
+                />
+
+                {/* Stairs and elevators */}
+                <ConnectorLayer
+                  connectors={connectors}
+                  floorId={floorId}
+                  pendingPosition={pendingConnectorPos}
+                  gridSize={gridSize}
+                />
+
                 {/* Path visualization */}
                 {rooms.map((room) => (
                   <PathVisualization
@@ -1754,6 +2375,24 @@ const DrawingCanvas = forwardRef<
                   />
                 ))}
 
+                {/* Rejected path */}
+                {rejectedPath && (
+                  <RejectedPathOverlay
+                    path={rejectedPath}
+                    rooms={rooms}
+                    gridSize={gridSize}
+                  />
+                )}
+
+                {/* Scale calibration line */}
+                {scaleMode && (
+                  <CalibrationLine
+                    points={calibrationPoints}
+                    mousePos={mousePos}
+                    gridSize={gridSize}
+                  />
+                )}
+
                 {/* Path creation preview */}
                 {pathCreationState === "drawing_path" &&
                   currentPathPoints.length > 0 && (
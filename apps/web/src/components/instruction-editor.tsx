@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/utils/trpc";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  fromEditableSteps,
+  toEditableStep,
+  type EditableStep,
+} from "@sightmap/common/instructionEditing";
+import type { Instruction } from "@sightmap/common/instructions";
+
+interface StepListEditorProps {
+  title: string;
+  steps: EditableStep[];
+  onChange: (steps: EditableStep[]) => void;
+}
+
+// One list of steps, each edited, moved or removed in place
+function StepListEditor({ title, steps, onChange }: StepListEditorProps) {
+  const update = (index: number, text: string) =>
+    onChange(
+      steps.map((step, i) => (i === index ? { ...step, text } : step))
+    );
+  const move = (index: number, offset: number) => {
+    const moved = [...steps];
+    const [step] = moved.splice(index, 1);
+    moved.splice(index + offset, 0, step!);
+    onChange(moved);
+  };
+  const remove = (index: number) =>
+    onChange(steps.filter((_, i) => i !== index));
+  const add = (isWarning: boolean) =>
+    onChange([...steps, { text: "", isWarning }]);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm">{title}</h4>
+      {steps.map((step, index) => (
+        <div key={index} className="flex items-start gap-1">
+          <span className="w-5 pt-2 text-xs text-gray-500">
+            {step.isWarning ? (
+              <AlertTriangle className="h-3 w-3 text-orange-600" />
+            ) : (
+              `${index + 1}.`
+            )}
+          </span>
+          <Textarea
+            value={step.text}
+            onChange={(event) => update(index, event.target.value)}
+            placeholder={step.isWarning ? "Warning" : "Instruction"}
+            className={`min-h-10 text-sm ${
+              step.isWarning ? "border-orange-300 bg-orange-50" : ""
+            }`}
+          />
+          <div className="flex flex-col">
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Move up"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Move down"
+              disabled={index === steps.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Remove"
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => add(false)}>
+          <Plus className="h-3 w-3 mr-1" />
+          Step
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => add(true)}>
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Warning
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface InstructionEditorProps {
+  pathId: string;
+  // Version the edits start from; null when the path has none yet
+  baseVersion: number | null;
+  descriptiveInstructions: Instruction[];
+  conciseInstructions: Instruction[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Edits a path's instructions by hand. Saving stores them as a new draft
+// version for review.
+export default function InstructionEditor({
+  pathId,
+  baseVersion,
+  descriptiveInstructions,
+  conciseInstructions,
+  onSaved,
+  onCancel,
+}: InstructionEditorProps) {
+  const [descriptive, setDescriptive] = useState(() =>
+    descriptiveInstructions.map(toEditableStep)
+  );
+  const [concise, setConcise] = useState(() =>
+    conciseInstructions.map(toEditableStep)
+  );
+
+  const saveMutation = useMutation(
+    trpc.instructionSet.saveEdits.mutationOptions({
+      onSuccess: () => {
+        toast.success("Instructions saved as a draft");
+        onSaved();
+      },
+      onError: (error) => {
+        toast.error("Failed to save instructions: " + error.message);
+      },
+    })
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Distances are written as {"{{steps|metres}}"}; keep the metres to
+        keep the distance.
+      </p>
+      <StepListEditor
+        title="Descriptive Instructions:"
+        steps={descriptive}
+        onChange={setDescriptive}
+      />
+      <StepListEditor
+        title="Concise Instructions:"
+        steps={concise}
+        onChange={setConcise}
+      />
+      <div className="flex gap-2">
+        <Button
+          className="flex-1"
+          disabled={saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              pathId,
+              baseVersion,
+              descriptiveInstructions: fromEditableSteps(descriptive),
+              conciseInstructions: fromEditableSteps(concise),
+            })
+          }
+        >
+          {saveMutation.isPending && (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          )}
+          Save Draft
+        </Button>
+        <Button
+          variant="outline"
+          disabled={saveMutation.isPending}
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { InstructionGenerator } from "@sightmap/common/prisma/enums";
+import { INSTRUCTION_GENERATOR_LABELS } from "@sightmap/common/templateInstructions";
+
+interface InstructionGeneratorSelectorProps {
+  value?: InstructionGenerator;
+  onChange: (generator: InstructionGenerator) => void;
+  // Shown while no generator is chosen
+  placeholder?: string;
+  className?: string;
+}
+
+export default function InstructionGeneratorSelector({
+  value,
+  onChange,
+  placeholder,
+  className = "",
+}: InstructionGeneratorSelectorProps) {
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <span className="text-sm font-medium">Written by:</span>
+      <Select value={value ?? ""} onValueChange={onChange}>
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(InstructionGenerator).map((option) => (
+            <SelectItem key={option} value={option}>
+              {INSTRUCTION_GENERATOR_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
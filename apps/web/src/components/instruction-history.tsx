@@ -0,0 +1,201 @@
+import { useState } from "react";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  diffInstructions,
+  type InstructionDiffKind,
+} from "@sightmap/common/instructionDiff";
+import type { Instruction } from "@sightmap/common/instructions";
+import type { InstructionSource } from "@sightmap/common/prisma/enums";
+
+type InstructionVersion =
+  RouterOutputs["instructionHistory"]["list"][number];
+
+const SOURCE_LABELS: Record<InstructionSource, string> = {
+  LLM: "Language model",
+  TEMPLATE: "Template",
+  MANUAL: "Manual",
+  LEGACY: "Saved before versions",
+};
+
+const DIFF_STYLES: Record<
+  InstructionDiffKind,
+  { className: string; marker: string }
+> = {
+  same: { className: "text-gray-600", marker: " " },
+  added: { className: "bg-green-50 text-green-800", marker: "+" },
+  removed: { className: "bg-red-50 text-red-800 line-through", marker: "−" },
+};
+
+interface InstructionHistoryProps {
+  pathId: string;
+  floorId: string;
+  // Version the path's instructions are currently saved as, if known
+  currentVersion: number | null;
+  // Version the public pages show
+  publishedVersionId: string | null;
+  // Renders an instruction with the viewer's units and stride
+  render: (instruction: Instruction) => string;
+}
+
+// Saved versions of a path's instructions. A version can be compared with
+// the current one and restored.
+export default function InstructionHistory({
+  pathId,
+  floorId,
+  currentVersion,
+  publishedVersionId,
+  render,
+}: InstructionHistoryProps) {
+  const queryClient = useQueryClient();
+  const [comparedVersion, setComparedVersion] = useState<number | null>(
+    null
+  );
+
+  const { data: versions, isLoading } = useQuery(
+    trpc.instructionHistory.list.queryOptions({ pathId })
+  );
+
+  const restoreMutation = useMutation(
+    trpc.instructionHistory.restore.mutationOptions({
+      onSuccess: (_, { version }) => {
+        toast.success(`Restored version ${version}`);
+        setComparedVersion(null);
+        queryClient.invalidateQueries({
+          queryKey: trpc.instructionHistory.list.queryKey({ pathId }),
+        });
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+      },
+      onError: (error) => {
+        toast.error("Failed to restore instructions: " + error.message);
+      },
+    })
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+  if (!versions?.length) return null;
+
+  const current =
+    versions.find((version) => version.version === currentVersion) ??
+    versions[0]!;
+  const compared = versions.find(
+    (version) => version.version === comparedVersion
+  );
+
+  const describe = (version: InstructionVersion) =>
+    [
+      SOURCE_LABELS[version.source] +
+        (version.model ? ` (${version.model})` : ""),
+      version.author?.name,
+      new Date(version.createdAt).toLocaleString(),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <div className="space-y-2">
+      <h4 className="flex items-center gap-1 font-semibold text-sm">
+        <History className="h-4 w-4" />
+        History
+      </h4>
+      <div className="space-y-1">
+        {versions.map((version) => {
+          const isCurrent = version.version === current.version;
+          return (
+            <div
+              key={version.id}
+              className={`flex items-center justify-between gap-2 rounded-md p-2 text-xs ${
+                version.version === comparedVersion
+                  ? "bg-blue-50"
+                  : "hover:bg-gray-50"
+              }`}
+            >
+              <button
+                type="button"
+                className="flex-1 text-left disabled:cursor-default"
+                disabled={isCurrent}
+                onClick={() =>
+                  setComparedVersion(
+                    version.version === comparedVersion
+                      ? null
+                      : version.version
+                  )
+                }
+              >
+                <div className="flex items-center gap-1 font-medium">
+                  Version {version.version}
+                  {isCurrent && <Badge variant="secondary">Current</Badge>}
+                  {version.id === publishedVersionId && (
+                    <Badge className="bg-green-100 text-green-800">
+                      Published
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-gray-500">
+                  {describe(version)}
+                  {version.restoredFrom !== null &&
+                    ` · restored from version ${version.restoredFrom}`}
+                </div>
+              </button>
+              {!isCurrent && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Restore this version"
+                  disabled={restoreMutation.isPending}
+                  onClick={() =>
+                    restoreMutation.mutate({
+                      pathId,
+                      version: version.version,
+                    })
+                  }
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Changes from the compared version to the current one */}
+      {compared && (
+        <div className="rounded-md border border-gray-200 p-2">
+          <p className="mb-1 text-xs text-gray-500">
+            Changes from version {compared.version} to version{" "}
+            {current.version}
+          </p>
+          <div className="space-y-0.5 font-mono text-xs">
+            {diffInstructions(
+              compared.descriptiveInstructions,
+              current.descriptiveInstructions
+            ).map((line, index) => (
+              <div
+                key={index}
+                className={`rounded px-1 ${DIFF_STYLES[line.kind].className}`}
+              >
+                {DIFF_STYLES[line.kind].marker} {render(line.instruction)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useMutation } from "@tanstack/react-query";
+import { CheckCircle2, Globe, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/utils/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { InstructionStatus } from "@sightmap/common/prisma/enums";
+
+const STATUS_STYLES: Record<
+  InstructionStatus,
+  { className: string; label: string }
+> = {
+  DRAFT: { className: "bg-gray-100 text-gray-700", label: "Draft" },
+  REVIEWED: { className: "bg-blue-100 text-blue-800", label: "Reviewed" },
+  PUBLISHED: { className: "bg-green-100 text-green-800", label: "Published" },
+};
+
+interface InstructionReviewProps {
+  pathId: string;
+  // Current version of the path's instructions
+  version: number;
+  status: InstructionStatus;
+  // Whether an earlier version is what the public pages show
+  hasPublishedVersion: boolean;
+  onChange: () => void;
+}
+
+// Where the current instructions are in their review, and the step that
+// moves them on: draft, then reviewed, then published
+export default function InstructionReview({
+  pathId,
+  version,
+  status,
+  hasPublishedVersion,
+  onChange,
+}: InstructionReviewProps) {
+  const mutationOptions = (done: string) => ({
+    onSuccess: () => {
+      toast.success(done);
+      onChange();
+    },
+    onError: (error: { message: string }) => {
+      toast.error(error.message);
+    },
+  });
+  const reviewMutation = useMutation(
+    trpc.instructionSet.review.mutationOptions(
+      mutationOptions("Instructions marked as reviewed")
+    )
+  );
+  const publishMutation = useMutation(
+    trpc.instructionSet.publish.mutationOptions(
+      mutationOptions("Instructions published")
+    )
+  );
+  const isPending = reviewMutation.isPending || publishMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <Badge className={STATUS_STYLES[status].className}>
+          {STATUS_STYLES[status].label}
+        </Badge>
+        {status !== "PUBLISHED" &&
+          (hasPublishedVersion
+            ? "Visitors see the last published version"
+            : "Visitors see no instructions yet")}
+      </div>
+
+      {status === "DRAFT" && (
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={isPending}
+          onClick={() => reviewMutation.mutate({ pathId, version })}
+        >
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <CheckCircle2 className="h-4 w-4 mr-2" />
+          )}
+          Mark as Reviewed
+        </Button>
+      )}
+      {status === "REVIEWED" && (
+        <Button
+          className="w-full"
+          disabled={isPending}
+          onClick={() => publishMutation.mutate({ pathId, version })}
+        >
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Globe className="h-4 w-4 mr-2" />
+          )}
+          Publish
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MobilityProfile } from "@sightmap/common/prisma/enums";
+import { MOBILITY_PROFILE_LABELS } from "@sightmap/common/mobility";
+
+interface MobilityProfileSelectorProps {
+  value?: MobilityProfile;
+  onChange: (profile: MobilityProfile) => void;
+  className?: string;
+}
+
+export const MOBILITY_PROFILE_STORAGE_KEY = "sightmap-mobility-profile";
+
+// Profile stored for guests, or null when none has been picked
+export function getStoredMobilityProfile(): MobilityProfile | null {
+  const stored = localStorage.getItem(MOBILITY_PROFILE_STORAGE_KEY);
+  return stored &&
+    Object.values(MobilityProfile).includes(stored as MobilityProfile)
+    ? (stored as MobilityProfile)
+    : null;
+}
+
+export default function MobilityProfileSelector({
+  value,
+  onChange,
+  className = "",
+}: MobilityProfileSelectorProps) {
+  const [profile, setProfile] = useState<MobilityProfile>(
+    value || "SHORTEST"
+  );
+
+  // Update when value prop changes
+  useEffect(() => {
+    if (value && value !== profile) {
+      setProfile(value);
+    }
+  }, [value]);
+
+  const handleChange = (newProfile: MobilityProfile) => {
+    setProfile(newProfile);
+    localStorage.setItem(MOBILITY_PROFILE_STORAGE_KEY, newProfile);
+    onChange(newProfile);
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <span className="text-sm font-medium">Route:</span>
+      <Select value={profile} onValueChange={handleChange}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(MobilityProfile).map((option) => (
+            <SelectItem key={option} value={option}>
+              {MOBILITY_PROFILE_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
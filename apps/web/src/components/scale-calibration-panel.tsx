@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type Position = { x: number; y: number };
+
+interface ScaleCalibrationPanelProps {
+  // Current scale of the floor; null when it was never calibrated
+  pixelsPerMetre: number | null;
+  // Points of the calibration line marked so far
+  points: Position[];
+  onSave: (metres: number) => void;
+  onCancel: () => void;
+}
+
+export default function ScaleCalibrationPanel({
+  pixelsPerMetre,
+  points,
+  onSave,
+  onCancel,
+}: ScaleCalibrationPanelProps) {
+  const [metres, setMetres] = useState("5");
+
+  const [from, to] = points;
+  const lineLength =
+    from && to ? Math.hypot(to.x - from.x, to.y - from.y) : 0;
+  const parsedMetres = Number.parseFloat(metres);
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-gray-200 pt-3">
+      <span className="text-sm font-medium">Floor Scale</span>
+      <p className="text-xs text-gray-500">
+        {pixelsPerMetre
+          ? `1 m = ${pixelsPerMetre.toFixed(1)} px`
+          : "Not calibrated yet; step counts use a default scale."}
+      </p>
+
+      {lineLength > 0 ? (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span>This line is</span>
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              className="h-8 w-20"
+              value={metres}
+              onChange={(e) => setMetres(e.target.value)}
+            />
+            <span>m long</span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={!(parsedMetres > 0)}
+              onClick={() => onSave(parsedMetres)}
+            >
+              Save Scale
+            </Button>
+            <Button size="sm" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {points.length === 0
+            ? "Click the start of a wall or line of known length."
+            : "Now click its other end."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
-import {
-  useQueryClient,
-  useQuery,
-  useMutation,
-} from "@tanstack/react-query";
+import { useQueryClient, useQuery } from "@tanstack/react-query";
 import { trpc } from "@/utils/trpc";
 import { toast } from "sonner";
-import { useCompletion } from "@ai-sdk/react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -18,6 +13,8 @@ import { Badge } from "@/components/ui/badge";
 import { CircularProgress } from "@/components/ui/progress";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -35,45 +32,45 @@ import {
   Loader2,
   Sparkles,
   Check,
+  ArrowLeftRight,
+  Grid3X3,
+  AlertTriangle,
+  Pencil,
 } from "lucide-react";
 import { useNavigate } from "@tanstack/react-router";
-import { useBulkInstructionGeneration } from "@/hooks/useBulkInstructionGeneration";
+import {
+  useBulkInstructionGeneration,
+  type GenerationJob,
+} from "@/hooks/useBulkInstructionGeneration";
+import CoverageMatrix from "@/components/coverage-matrix";
 import type { RouterOutputs } from "@/utils/trpc";
 import QRCode from "react-qr-code";
 
-import type { StepSize } from "@sightmap/common/prisma/enums";
-import { SERVER_URL } from "@/utils/constnats";
-
-// Helper function to adjust step numbers in instruction text
-function adjustInstructionText(
-  text: string,
-  stepSize?: StepSize
-): string {
-  if (!stepSize) return text;
-
-  const multipliers: Record<StepSize, number> = {
-    SMALL: 1.4, // Small steps = more steps needed
-    MEDIUM: 1.0, // Medium steps = normal
-    LARGE: 0.7, // Large steps = fewer steps needed
-  };
-
-  const stepMatch = text.match(/\{\{(\d+)\}\}/);
-  const stepNumber = stepMatch ? parseInt(stepMatch[1]) : 0;
-
-  const adjustedStepNumber = Math.round(
-    stepNumber * multipliers[stepSize]
-  );
-
-  // First replace {{number}} with adjusted number, then remove remaining unpaired { and }
-  let cleanedText = text.replace(
-    /\{\{(\d+)\}\}/,
-    adjustedStepNumber.toString()
-  );
-  // Remove any remaining unpaired { and }
-  cleanedText = cleanedText.replace(/[{}]/g, "");
-
-  return cleanedText;
-}
+import { resolveStrideMetres } from "@sightmap/common/stride";
+import {
+  renderInstruction,
+  type Instruction,
+} from "@sightmap/common/instructions";
+import InstructionGeneratorSelector from "@/components/instruction-generator-selector";
+import InstructionHistory from "@/components/instruction-history";
+import InstructionEditor from "@/components/instruction-editor";
+import InstructionReview from "@/components/instruction-review";
+import type { InstructionGenerator } from "@sightmap/common/prisma/enums";
+import {
+  EMPTY_INSTRUCTION_STREAM,
+  type InstructionStreamState,
+} from "@sightmap/common/generation";
+import { streamInstructions } from "@/lib/instruction-stream";
+import { jobProgressPercent } from "@sightmap/common/generationJobs";
+import {
+  ROOM_NAME_MAX_LENGTH,
+  ROOM_NAME_PATTERN,
+  ROOM_NAME_RULE,
+  ROOM_NUMBER_MAX_LENGTH,
+  ROOM_NUMBER_PATTERN,
+  ROOM_NUMBER_RULE,
+} from "@sightmap/common/roomText";
+import type { GenerationTaskStatus } from "@sightmap/common/prisma/enums";
 
 type Room = RouterOutputs["floor"]["getFloorData"]["rooms"][number];
 type Path = Room["fromPaths"][number];
@@ -88,20 +85,28 @@ interface SidebarProps {
   onPathSelect: (pathId: string | null) => void;
   onRoomNameUpdate: (roomId: string, name: string) => void;
   onRoomNumberUpdate: (roomId: string, number: string) => void;
+  onRoomAliasesUpdate?: (roomId: string, aliases: string[]) => void;
   onRoomDelete?: (roomId: string) => void;
   onPathDelete?: (pathId: string) => void;
+  onPathReverse?: (pathId: string) => void;
   onPathCreateStart?: (sourceRoomId: string) => void;
+  onPathCreateForPair?: (
+    sourceRoomId: string,
+    destinationRoomId: string
+  ) => void;
   pathCreationState?:
     | "idle"
     | "selecting_destination"
     | "drawing_path";
+  createBidirectionalPath?: boolean;
+  onCreateBidirectionalPathChange?: (bidirectional: boolean) => void;
   onPathCreateCancel?: () => void;
   currentPathPoints?: Position[];
   onUndoLastPoint?: () => void;
   className?: string;
 }
 
-type Screen = "rooms" | "details" | "instructions";
+type Screen = "rooms" | "details" | "instructions" | "coverage";
 
 const findPathById = (rooms: Room[], pathId: string) => {
   for (const room of rooms) {
@@ -127,22 +132,25 @@ export default function Sidebar({
   onPathSelect,
   onRoomNameUpdate,
   onRoomNumberUpdate,
+  onRoomAliasesUpdate,
   onRoomDelete,
   onPathDelete,
+  onPathReverse,
   onPathCreateStart,
+  onPathCreateForPair,
   pathCreationState = "idle",
+  createBidirectionalPath = false,
+  onCreateBidirectionalPathChange,
   onPathCreateCancel,
   currentPathPoints = [],
   onUndoLastPoint,
   className = "",
 }: SidebarProps) {
   const [currentScreen, setCurrentScreen] = useState<Screen>("rooms");
-  const [
-    isGeneratingInstructionInBulk,
-    setIsGeneratingInstructionInBulk,
-  ] = useState(false);
-  const [bulkGenerationCompleted, setBulkGenerationCompleted] =
-    useState(false);
+  // Bulk job whose progress stays on screen after it finishes
+  const [shownBulkJobId, setShownBulkJobId] = useState<string | null>(
+    null
+  );
   const queryClient = useQueryClient();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const hasUserBlurredRef = useRef(false);
@@ -155,18 +163,23 @@ export default function Sidebar({
   // Get floor ID from the first room (assuming all rooms are from the same floor)
   const floorId = rooms[0]?.floorId || "";
 
-  // Bulk instruction generation hook
-  const { isGenerating, progress, generateBulkInstructions } =
-    useBulkInstructionGeneration({
-      floorId,
-      onProgress: (progress) => {
-        // Progress updates are handled internally
-      },
-      onComplete: (results) => {
-        setIsGeneratingInstructionInBulk(false);
-        setBulkGenerationCompleted(true);
-      },
-    });
+  // Bulk instruction generation runs as a server job; attach to any
+  // job running for this floor
+  const {
+    job: bulkJob,
+    isGenerating,
+    isStarting,
+    pathStatuses,
+    generateBulkInstructions,
+    cancelBulkGeneration,
+  } = useBulkInstructionGeneration({ floorId });
+
+  useEffect(() => {
+    if (bulkJob && isGenerating) setShownBulkJobId(bulkJob.id);
+  }, [bulkJob?.id, isGenerating]);
+
+  const showBulkJob =
+    !!bulkJob && (isGenerating || bulkJob.id === shownBulkJobId);
 
   // Automatically switch to details screen when a room is selected
   useEffect(() => {
@@ -202,11 +215,12 @@ export default function Sidebar({
   const handleBackToRooms = () => {
     setCurrentScreen("rooms");
     onRoomSelect(null);
-    setBulkGenerationCompleted(false);
+    setShownBulkJobId(null);
   };
 
   const handleBackToDetails = () => {
-    setCurrentScreen("details");
+    // Paths opened from the coverage matrix have no room selected
+    setCurrentScreen(selectedRoom ? "details" : "rooms");
     onPathSelect(null);
   };
 
@@ -233,6 +247,16 @@ export default function Sidebar({
     if (!selectedRoom) return;
     hasUserBlurredRef.current = true;
     const trimmedName = selectedRoom.name.trim();
+    if (!ROOM_NAME_PATTERN.test(trimmedName)) {
+      toast.error(ROOM_NAME_RULE);
+      // The cache holds what was typed; refetch to put the saved name back
+      queryClient.invalidateQueries({
+        queryKey: trpc.floor.getFloorData.queryKey({
+          floorId: selectedRoom.floorId,
+        }),
+      });
+      return;
+    }
     onRoomNameUpdate(selectedRoom.id, trimmedName);
     toast.success(`Room name updated to "${trimmedName}"`);
   };
@@ -246,38 +270,20 @@ export default function Sidebar({
     }
   };
 
+  // Paths whose saved instructions describe an older version of them
+  const stalePathIds = rooms.flatMap((room) =>
+    room.fromPaths
+      .filter((path) => path.instructionsStale)
+      .map((path) => path.id)
+  );
+
   const handleBulkGenerationToggle = () => {
-    if (isGeneratingInstructionInBulk) {
-      // Cancel bulk generation
-      setIsGeneratingInstructionInBulk(false);
+    if (isGenerating) {
+      cancelBulkGeneration();
     } else {
-      // Start bulk generation
-      setIsGeneratingInstructionInBulk(true);
-
-      // Collect all paths that don't have instructions
-      const pathsToGenerate: Path[] = [];
-      rooms.forEach((room) => {
-        room.fromPaths.forEach((path) => {
-          const hasInstructions =
-            path.instructionSet &&
-            ((path.instructionSet.descriptiveInstructions &&
-              path.instructionSet.descriptiveInstructions.length >
-                0) ||
-              (path.instructionSet.conciseInstructions &&
-                path.instructionSet.conciseInstructions.length > 0));
-
-          if (!hasInstructions) {
-            pathsToGenerate.push(path);
-          }
-        });
-      });
-
-      if (pathsToGenerate.length > 0) {
-        generateBulkInstructions(pathsToGenerate);
-      } else {
-        toast.info("All paths already have instructions!");
-        setIsGeneratingInstructionInBulk(false);
-      }
+      // Reverse paths start out with concise steps only, so they still
+      // count as missing
+      generateBulkInstructions({ missingOnly: true });
     }
   };
 
@@ -317,14 +323,15 @@ export default function Sidebar({
             </Button>
           )}
           {(currentScreen === "details" ||
-            currentScreen === "instructions") && (
+            currentScreen === "instructions" ||
+            currentScreen === "coverage") && (
             <Button
               variant="ghost"
               size="sm"
               onClick={
-                currentScreen === "details"
-                  ? handleBackToRooms
-                  : handleBackToDetails
+                currentScreen === "instructions"
+                  ? handleBackToDetails
+                  : handleBackToRooms
               }
               className="p-1 flex-shrink-0"
             >
@@ -333,6 +340,8 @@ export default function Sidebar({
           )}
           {currentScreen === "rooms" ? (
             <h2 className="text-lg font-semibold">Rooms</h2>
+          ) : currentScreen === "coverage" ? (
+            <h2 className="text-lg font-semibold">Path Coverage</h2>
           ) : currentScreen === "instructions" && selectedPathId ? (
             (() => {
               const selectedPath = findPathById(
@@ -356,6 +365,7 @@ export default function Sidebar({
               value={selectedRoom.name}
               onChange={(e) => handleNameChange(e.target.value)}
               onKeyDown={handleNameKeyDown}
+              maxLength={ROOM_NAME_MAX_LENGTH}
               className="flex-1 text-2xl font-semibold border-none bg-transparent p-2 h-auto focus:ring-2 focus:ring-blue-500 focus:ring-offset-0 resize-none min-h-[2rem] max-h-[6rem] overflow-hidden"
               rows={1}
             />
@@ -363,24 +373,31 @@ export default function Sidebar({
             <h2 className="text-lg font-semibold">Room Details</h2>
           )}
         </div>
+        {currentScreen === "rooms" && rooms.length > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCurrentScreen("coverage")}
+            className="flex items-center gap-2 mr-2"
+          >
+            <Grid3X3 className="h-4 w-4" />
+            Coverage
+          </Button>
+        )}
         {currentScreen === "rooms" && (
           <Button
-            variant={
-              isGeneratingInstructionInBulk ? "default" : "outline"
-            }
+            variant={isGenerating ? "default" : "outline"}
             size="sm"
             onClick={handleBulkGenerationToggle}
-            disabled={isGenerating}
+            disabled={isStarting}
             className="flex items-center gap-2"
           >
-            {isGenerating ? (
+            {isGenerating || isStarting ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Sparkles className="h-4 w-4" />
             )}
-            {isGeneratingInstructionInBulk
-              ? "Generating..."
-              : "Generate All"}
+            {isGenerating ? "Cancel" : "Generate All"}
           </Button>
         )}
       </div>
@@ -391,11 +408,15 @@ export default function Sidebar({
           <PathCreationNoticeScreen
             message="Choose a destination room"
             onCancel={onPathCreateCancel}
+            bidirectional={createBidirectionalPath}
+            onBidirectionalChange={onCreateBidirectionalPathChange}
           />
         ) : pathCreationState === "drawing_path" ? (
           <PathCreationNoticeScreen
             message="Click to add anchor points"
             onCancel={onPathCreateCancel}
+            bidirectional={createBidirectionalPath}
+            onBidirectionalChange={onCreateBidirectionalPathChange}
             onUndo={
               currentPathPoints.length > 1
                 ? onUndoLastPoint
@@ -407,11 +428,23 @@ export default function Sidebar({
             rooms={rooms}
             selectedRoomId={selectedRoomId}
             onRoomClick={handleRoomClick}
-            isGeneratingInstructionInBulk={
-              isGeneratingInstructionInBulk
+            bulkJob={showBulkJob ? bulkJob : null}
+            bulkPathStatuses={pathStatuses}
+            stalePathCount={isGenerating ? 0 : stalePathIds.length}
+            onRegenerateStale={() =>
+              generateBulkInstructions({ pathIds: stalePathIds })
+            }
+          />
+        ) : currentScreen === "coverage" ? (
+          <CoverageMatrix
+            floorId={floorId}
+            onCreatePath={(fromRoomId, toRoomId) =>
+              onPathCreateForPair?.(fromRoomId, toRoomId)
             }
-            bulkGenerationCompleted={bulkGenerationCompleted}
-            bulkProgress={progress}
+            onPathSelect={(pathId) => {
+              onPathSelect(pathId);
+              setCurrentScreen("instructions");
+            }}
           />
         ) : currentScreen === "details" && selectedRoom ? (
           <RoomDetailsScreen
@@ -421,8 +454,10 @@ export default function Sidebar({
               setCurrentScreen("instructions");
             }}
             onRoomNumberUpdate={onRoomNumberUpdate}
+            onRoomAliasesUpdate={onRoomAliasesUpdate}
             onRoomDelete={onRoomDelete}
             onPathDelete={onPathDelete}
+            onPathReverse={onPathReverse}
             onPathCreateStart={onPathCreateStart}
           />
         ) : currentScreen === "instructions" && selectedPathId ? (
@@ -431,10 +466,7 @@ export default function Sidebar({
             return selectedPath ? (
               <InstructionsScreen
                 path={selectedPath}
-                onBack={() => {
-                  setCurrentScreen("details");
-                  onPathSelect(null);
-                }}
+                onBack={handleBackToDetails}
               />
             ) : null;
           })()
@@ -462,9 +494,13 @@ function InstructionsScreen({
   path,
   onBack,
 }: InstructionsScreenProps) {
-  const { completion, complete, isLoading } = useCompletion({
-    api: `${SERVER_URL}/generate-instructions`,
-  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [generated, setGenerated] = useState<InstructionStreamState>(
+    EMPTY_INSTRUCTION_STREAM
+  );
+  // Unset uses the building's generator
+  const [generator, setGenerator] = useState<InstructionGenerator>();
+  const [isEditing, setIsEditing] = useState(false);
 
   // Fetch user settings for step size preference
   const { data: userSettings } = useQuery(
@@ -495,107 +531,76 @@ function InstructionsScreen({
 
   const progressPercentage = calculateProgress();
 
-  // Save instructions mutation
-  const saveInstructionsMutation = useMutation(
-    trpc.floor.saveInstructions.mutationOptions({
-      onSuccess(data, variables, onMutateResult, context) {
-        toast.success("Instructions saved successfully!");
-        context.client.invalidateQueries({
-          queryKey: trpc.floor.getFloorData.queryKey({
-            floorId: path.fromRoom.floorId,
-          }),
-        });
-      },
-      onError: (error) => {
-        toast.error("Failed to save instructions: " + error.message);
-      },
-    })
-  );
+  const queryClient = useQueryClient();
 
-  const handleGenerateInstructions = () => {
-    complete(JSON.stringify({ pathId: path.id }));
+  // Reload the saved instructions and their history after a change
+  const refreshInstructions = () => {
+    queryClient.invalidateQueries({
+      queryKey: trpc.floor.getFloorData.queryKey({
+        floorId: path.fromRoom.floorId,
+      }),
+    });
+    queryClient.invalidateQueries({
+      queryKey: trpc.instructionHistory.list.queryKey({ pathId: path.id }),
+    });
   };
 
-  // Parse completion content with delimiters - incremental parsing
-  const parseCompletionContent = (content: string) => {
-    // Extract steps incrementally - don't wait for STEPS_END
-    const stepsSection =
-      content.match(/SSTART\s*\n([\s\S]*?)(SEND|$)/)?.[1] || "";
-    const steps = stepsSection
-      .split("\n")
-      .filter((line) => line.startsWith("STEP:"))
-      .map((line) => line.replace("STEP: ", "").trim());
-
-    // Extract concise instructions
-    const conciseSection =
-      content.match(/C:\s*\n([\s\S]*?)(EC|$)/)?.[1] || "";
-    const conciseInstructions = conciseSection
-      .split("\n")
-      .filter((line) => line.trim());
-
-    return { steps, conciseInstructions };
+  const handleGenerateInstructions = async () => {
+    setIsLoading(true);
+    setGenerated(EMPTY_INSTRUCTION_STREAM);
+    try {
+      // The server saves the instructions before the stream ends
+      await streamInstructions({
+        pathId: path.id,
+        generator,
+        onUpdate: setGenerated,
+      });
+      toast.success("Instructions saved successfully!");
+      refreshInstructions();
+    } catch (error) {
+      toast.error(
+        "Failed to generate instructions: " +
+          (error instanceof Error ? error.message : String(error))
+      );
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const parsedData = parseCompletionContent(completion);
+  const parsedData = {
+    steps: generated.steps.map((step) => step.instruction),
+    conciseInstructions: generated.conciseInstructions,
+    generatedBy: generated.generatedBy,
+  };
 
-  // Update progress state when completion changes
+  // Update progress state as the instructions stream in
   useEffect(() => {
-    const { steps, conciseInstructions } = parsedData;
     setProgressState({
-      descriptiveSteps: steps.length,
-      conciseInstructions: conciseInstructions.length,
+      descriptiveSteps: generated.steps.length,
+      conciseInstructions: generated.conciseInstructions.length,
     });
-  }, [completion]);
-
-  const handleSaveInstructions = () => {
-    if (!parsedData.steps.length) return;
+  }, [generated]);
 
-    // Descriptive instructions: AI-generated full sentences (steps)
-    const descriptiveInstructions = parsedData.steps;
-
-    // Concise instructions: movement segments from AI response
-    const conciseInstructions = parsedData.conciseInstructions || [];
-
-    saveInstructionsMutation.mutate({
-      pathId: path.id,
-      descriptiveInstructions,
-      conciseInstructions,
+  // Render instructions for the user's step size
+  const render = (instruction: Instruction) =>
+    renderInstruction(instruction, {
+      strideMetres: resolveStrideMetres(userSettings),
     });
-  };
 
-  // Apply step size adjustment to steps
-  const adjustedSteps = parsedData.steps.map((stepText) =>
-    adjustInstructionText(stepText, userSettings?.stepSize)
-  );
-
-  // Apply step size adjustment to concise instructions
+  const adjustedSteps = parsedData.steps.map(render);
   const adjustedConciseInstructions =
-    parsedData.conciseInstructions?.map((conciseText) =>
-      adjustInstructionText(conciseText, userSettings?.stepSize)
-    ) || [];
+    parsedData.conciseInstructions.map(render);
+
+  const savedSteps = path.instructionSet?.descriptiveInstructions || [];
+  const savedConciseInstructions =
+    path.instructionSet?.conciseInstructions || [];
 
   // Check if path already has saved instructions
   const hasSavedInstructions =
-    path.instructionSet &&
-    ((path.instructionSet.descriptiveInstructions &&
-      path.instructionSet.descriptiveInstructions.length > 0) ||
-      (path.instructionSet.conciseInstructions &&
-        path.instructionSet.conciseInstructions.length > 0));
-
-  // Apply step size adjustment to saved instructions
-  const adjustedSavedSteps = hasSavedInstructions
-    ? (path.instructionSet!.descriptiveInstructions || []).map(
-        (stepText) =>
-          adjustInstructionText(stepText, userSettings?.stepSize)
-      )
-    : [];
-
-  const adjustedSavedConciseInstructions = hasSavedInstructions
-    ? (path.instructionSet!.conciseInstructions || []).map(
-        (conciseText) =>
-          adjustInstructionText(conciseText, userSettings?.stepSize)
-      )
-    : [];
+    savedSteps.length > 0 || savedConciseInstructions.length > 0;
+
+  const adjustedSavedSteps = savedSteps.map(render);
+  const adjustedSavedConciseInstructions = savedConciseInstructions.map(render);
 
   // Use streaming content when loading, otherwise use saved instructions if available
   const displaySteps = isLoading
@@ -610,15 +615,15 @@ function InstructionsScreen({
     ? adjustedSavedConciseInstructions
     : adjustedConciseInstructions;
 
-  // Check if current generated instructions are different from saved ones
-  const hasUnsavedChanges =
-    !isLoading &&
-    parsedData.steps.length > 0 &&
-    (!hasSavedInstructions ||
-      JSON.stringify(adjustedSteps) !==
-        JSON.stringify(adjustedSavedSteps) ||
-      JSON.stringify(adjustedConciseInstructions) !==
-        JSON.stringify(adjustedSavedConciseInstructions));
+  const displayGeneratedBy =
+    isLoading || !hasSavedInstructions
+      ? parsedData.generatedBy
+      : path.instructionSet?.provider
+      ? {
+          provider: path.instructionSet.provider,
+          model: path.instructionSet.model,
+        }
+      : null;
 
   return (
     <div className="space-y-4">
@@ -629,168 +634,219 @@ function InstructionsScreen({
           </CardTitle>
         </CardHeader>
         <CardContent className="pt-0">
-          <div className="space-y-4">
-            {/* Instructions Display */}
-            <div className="border border-gray-200 rounded-lg p-4 bg-white min-h-[200px]">
-              {!hasSavedInstructions &&
-              !parsedData.steps.length &&
-              !isLoading ? (
-                <p className="text-sm text-gray-500">
-                  Click "Generate Instructions" to create navigation
-                  instructions for this path.
-                </p>
-              ) : (
-                <div className="space-y-4">
-                  {/* Descriptive Instructions */}
-                  {(displaySteps.length > 0 || isLoading) && (
-                    <div>
-                      <h4 className="font-semibold text-sm mb-2">
-                        Descriptive Instructions:
-                      </h4>
-                      <div className="space-y-1">
-                        {displaySteps.length > 0 ? (
-                          displaySteps.map((stepText, index) => (
-                            <div
-                              key={index}
-                              className="text-sm text-gray-700"
-                            >
-                              {index + 1}. {stepText}
-                              {isLoading &&
-                              index === displaySteps.length - 1 &&
-                              displayConciseInstructions.length ===
-                                0 ? (
-                                <span
-                                  style={{
-                                    fontSize: "1.0em",
-                                    fontWeight: "bold",
-                                  }}
-                                >
-                                  {" "}
-                                  ●
-                                </span>
-                              ) : (
-                                ""
-                              )}
+          {isEditing ? (
+            <InstructionEditor
+              pathId={path.id}
+              baseVersion={path.instructionSet?.version ?? null}
+              descriptiveInstructions={savedSteps}
+              conciseInstructions={savedConciseInstructions}
+              onSaved={() => {
+                setIsEditing(false);
+                refreshInstructions();
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <div className="space-y-4">
+              {/* Instructions Display */}
+              <div className="border border-gray-200 rounded-lg p-4 bg-white min-h-[200px]">
+                {!hasSavedInstructions &&
+                !parsedData.steps.length &&
+                !isLoading ? (
+                  <p className="text-sm text-gray-500">
+                    Click "Generate Instructions" to create navigation
+                    instructions for this path.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {/* Descriptive Instructions */}
+                    {(displaySteps.length > 0 || isLoading) && (
+                      <div>
+                        <h4 className="font-semibold text-sm mb-2">
+                          Descriptive Instructions:
+                        </h4>
+                        <div className="space-y-1">
+                          {displaySteps.length > 0 ? (
+                            displaySteps.map((stepText, index) => (
+                              <div
+                                key={index}
+                                className="text-sm text-gray-700"
+                              >
+                                {index + 1}. {stepText}
+                                {isLoading &&
+                                index === displaySteps.length - 1 &&
+                                displayConciseInstructions.length ===
+                                  0 ? (
+                                  <span
+                                    style={{
+                                      fontSize: "1.0em",
+                                      fontWeight: "bold",
+                                    }}
+                                  >
+                                    {" "}
+                                    ●
+                                  </span>
+                                ) : (
+                                  ""
+                                )}
+                              </div>
+                            ))
+                          ) : isLoading ? (
+                            <div className="text-sm text-gray-700">
+                              ●
                             </div>
-                          ))
-                        ) : isLoading ? (
-                          <div className="text-sm text-gray-700">
-                            ●
-                          </div>
-                        ) : null}
+                          ) : null}
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* Concise Instructions */}
-                  {displayConciseInstructions.length > 0 && (
-                    <div>
-                      <h4 className="font-semibold text-sm mb-2">
-                        Concise Instructions:
-                      </h4>
-                      <div className="space-y-1">
-                        {displayConciseInstructions.map(
-                          (line, index) => (
-                            <div
-                              key={index}
-                              className="text-sm text-gray-700"
-                            >
-                              {index + 1}. {line}
-                              {isLoading &&
-                              index ===
-                                displayConciseInstructions.length -
-                                  1 ? (
-                                <span
-                                  style={{
-                                    fontSize: "1.0em",
-                                    fontWeight: "bold",
-                                  }}
-                                >
-                                  {" "}
-                                  ●
-                                </span>
-                              ) : (
-                                ""
-                              )}
-                            </div>
-                          )
-                        )}
+                    )}
+
+                    {/* Concise Instructions */}
+                    {displayConciseInstructions.length > 0 && (
+                      <div>
+                        <h4 className="font-semibold text-sm mb-2">
+                          Concise Instructions:
+                        </h4>
+                        <div className="space-y-1">
+                          {displayConciseInstructions.map(
+                            (line, index) => (
+                              <div
+                                key={index}
+                                className="text-sm text-gray-700"
+                              >
+                                {index + 1}. {line}
+                                {isLoading &&
+                                index ===
+                                  displayConciseInstructions.length -
+                                    1 ? (
+                                  <span
+                                    style={{
+                                      fontSize: "1.0em",
+                                      fontWeight: "bold",
+                                    }}
+                                  >
+                                    {" "}
+                                    ●
+                                  </span>
+                                ) : (
+                                  ""
+                                )}
+                              </div>
+                            )
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {isLoading && (
-                    <div className="flex items-center gap-2 text-sm text-gray-500 mt-2">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      {hasSavedInstructions
-                        ? "Regenerating instructions..."
-                        : "Generating instructions..."}
-                    </div>
-                  )}
+                    )}
+
+                    {isLoading && (
+                      <div className="flex items-center gap-2 text-sm text-gray-500 mt-2">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {hasSavedInstructions
+                          ? "Regenerating instructions..."
+                          : "Generating instructions..."}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Saved instructions generated for an older version of the path */}
+              {path.instructionsStale && hasSavedInstructions && !isLoading && (
+                <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-2 text-xs text-orange-800">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  The path or the rooms along it have changed since these
+                  instructions were generated. Regenerate them to match.
                 </div>
               )}
-            </div>
 
-            {/* Action Buttons */}
-            <div className="space-y-2">
-              {!hasSavedInstructions && (
-                <Button
-                  className="w-full"
-                  onClick={handleGenerateInstructions}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      Generating...
-                    </>
-                  ) : (
-                    "Generate Instructions"
-                  )}
-                </Button>
+              {/* What wrote the instructions on display */}
+              {displayGeneratedBy && (
+                <p className="text-xs text-gray-500">
+                  Written by {displayGeneratedBy.provider}
+                  {displayGeneratedBy.model &&
+                    ` (${displayGeneratedBy.model})`}
+                </p>
               )}
 
-              {hasSavedInstructions && (
+              {/* Action Buttons */}
+              <div className="space-y-2">
+                <InstructionGeneratorSelector
+                  value={generator}
+                  onChange={setGenerator}
+                  placeholder="Building default"
+                />
+
+                {!hasSavedInstructions && (
+                  <Button
+                    className="w-full"
+                    onClick={handleGenerateInstructions}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        Generating...
+                      </>
+                    ) : (
+                      "Generate Instructions"
+                    )}
+                  </Button>
+                )}
+
+                {hasSavedInstructions && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleGenerateInstructions}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        Regenerating...
+                      </>
+                    ) : (
+                      "Regenerate Instructions"
+                    )}
+                  </Button>
+                )}
+
                 <Button
                   variant="outline"
                   className="w-full"
-                  onClick={handleGenerateInstructions}
+                  onClick={() => setIsEditing(true)}
                   disabled={isLoading}
                 >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      Regenerating...
-                    </>
-                  ) : (
-                    "Regenerate Instructions"
-                  )}
+                  <Pencil className="h-4 w-4 mr-2" />
+                  {hasSavedInstructions
+                    ? "Edit Instructions"
+                    : "Write Instructions"}
                 </Button>
+              </div>
+
+              {/* Review, for instructions saved as a version */}
+              {path.instructionSet?.version != null && !isLoading && (
+                <InstructionReview
+                  pathId={path.id}
+                  version={path.instructionSet.version}
+                  status={path.instructionSet.status}
+                  hasPublishedVersion={!!path.instructionSet.publishedVersionId}
+                  onChange={refreshInstructions}
+                />
               )}
 
-              {hasUnsavedChanges && (
-                <Button
-                  variant="outline"
-                  className="w-full"
-                  onClick={handleSaveInstructions}
-                  disabled={saveInstructionsMutation.isPending}
-                >
-                  {saveInstructionsMutation.isPending ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      {hasSavedInstructions
-                        ? "Updating..."
-                        : "Saving..."}
-                    </>
-                  ) : hasSavedInstructions ? (
-                    "Update Instructions"
-                  ) : (
-                    "Save Instructions"
-                  )}
-                </Button>
+              {hasSavedInstructions && !isLoading && (
+                <InstructionHistory
+                  pathId={path.id}
+                  floorId={path.fromRoom.floorId}
+                  currentVersion={path.instructionSet?.version ?? null}
+                  publishedVersionId={
+                    path.instructionSet?.publishedVersionId ?? null
+                  }
+                  render={render}
+                />
               )}
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -801,151 +857,102 @@ interface RoomListScreenProps {
   rooms: Room[];
   selectedRoomId: string | null;
   onRoomClick: (room: Room) => void;
-  isGeneratingInstructionInBulk?: boolean;
-  bulkGenerationCompleted?: boolean;
-  bulkProgress?: {
-    totalPaths: number;
-    currentBatch: number;
-    totalBatches: number;
-    pathStatuses: Record<
-      string,
-      "pending" | "generating" | "completed" | "failed"
-    >;
-    pathProgress: Record<
-      string,
-      {
-        descriptiveSteps: number;
-        conciseInstructions: number;
-        totalSegments: number;
-      }
-    >;
-  };
+  // Bulk generation job to show progress for, if any
+  bulkJob?: GenerationJob | null;
+  bulkPathStatuses?: Record<string, GenerationTaskStatus>;
+  // Paths with out-of-date instructions, offered for regeneration
+  stalePathCount?: number;
+  onRegenerateStale?: () => void;
 }
 
 function RoomListScreen({
   rooms,
   selectedRoomId,
   onRoomClick,
-  isGeneratingInstructionInBulk = false,
-  bulkGenerationCompleted = false,
-  bulkProgress,
+  bulkJob = null,
+  bulkPathStatuses = {},
+  stalePathCount = 0,
+  onRegenerateStale,
 }: RoomListScreenProps) {
-  console.log({
-    rooms,
-  });
-
-  // Calculate overall progress including streaming progress
-  const calculateOverallProgress = () => {
-    if (!bulkProgress) return 0;
-
-    let totalProgress = 0;
-
-    // Count completed and failed paths, add streaming progress for generating paths
-    Object.entries(bulkProgress.pathStatuses).forEach(
-      ([pathId, status]) => {
-        if (status === "completed" || status === "failed") {
-          totalProgress += 1;
-        } else if (
-          status === "generating" &&
-          bulkProgress.pathProgress[pathId]
-        ) {
-          const pathProgress = bulkProgress.pathProgress[pathId];
-          const {
-            descriptiveSteps,
-            conciseInstructions,
-            totalSegments,
-          } = pathProgress;
-
-          if (totalSegments === 0) return;
-
-          // Calculate progress for this path (same logic as InstructionsScreen)
-          let pathProgressPercent = 0;
-          if (descriptiveSteps < totalSegments) {
-            // Still generating descriptive instructions (60% of progress)
-            pathProgressPercent =
-              (descriptiveSteps / totalSegments) * 60;
-          } else {
-            // Descriptive instructions complete, now concise instructions (40% of progress)
-            pathProgressPercent =
-              60 + (conciseInstructions / totalSegments) * 40;
-          }
-
-          // Add this path's progress contribution
-          totalProgress += pathProgressPercent / 100;
-        }
-      }
-    );
-
-    return Math.round(
-      (totalProgress / bulkProgress.totalPaths) * 100
-    );
-  };
-
-  const overallProgress = calculateOverallProgress();
-  const completedCount = bulkProgress
-    ? Object.values(bulkProgress.pathStatuses).filter(
-        (s) => s === "completed" || s === "failed"
-      ).length
-    : 0;
-  const completedPathsCount = bulkProgress
-    ? Object.values(bulkProgress.pathStatuses).filter(
-        (s) => s === "completed"
-      ).length
-    : 0;
-  const failedPathsCount = bulkProgress
-    ? Object.values(bulkProgress.pathStatuses).filter(
-        (s) => s === "failed"
-      ).length
+  const isGeneratingInstructionInBulk =
+    bulkJob?.status === "QUEUED" || bulkJob?.status === "RUNNING";
+  const overallProgress = bulkJob ? jobProgressPercent(bulkJob.counts) : 0;
+  const finishedCount = bulkJob
+    ? bulkJob.counts.total -
+      bulkJob.counts.PENDING -
+      bulkJob.counts.RUNNING
     : 0;
+  // Pending tasks that have failed before are waiting for a retry
+  const retryingCount =
+    bulkJob?.tasks.filter(
+      (task) => task.status === "PENDING" && task.attempts > 0
+    ).length ?? 0;
 
   return (
     <div className="space-y-4">
       {/* Bulk Generation Progress */}
-      {(isGeneratingInstructionInBulk || bulkGenerationCompleted) &&
-        bulkProgress && (
-          <Card>
-            <CardContent>
+      {bulkJob && (
+        <Card>
+          <CardContent>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3
+                  className={`font-semibold ${
+                    isGeneratingInstructionInBulk
+                      ? "generating-text-animation"
+                      : ""
+                  }`}
+                >
+                  {isGeneratingInstructionInBulk
+                    ? "Generating Instructions"
+                    : bulkJob.status === "CANCELLED"
+                    ? "Generation Cancelled"
+                    : "Instructions Generated"}
+                </h3>
+                <span className="text-sm text-gray-600">
+                  {finishedCount}/{bulkJob.counts.total}
+                </span>
+              </div>
               <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <h3
-                    className={`font-semibold ${
-                      isGeneratingInstructionInBulk
-                        ? "generating-text-animation"
-                        : ""
-                    }`}
-                  >
-                    {!isGeneratingInstructionInBulk &&
-                    bulkGenerationCompleted
-                      ? "Instructions Generated"
-                      : "Generating Instructions"}
-                  </h3>
-                  <span className="text-sm text-gray-600">
-                    {completedCount}/{bulkProgress.totalPaths}
-                  </span>
+                <div className="w-full bg-gray-200 rounded-full h-1">
+                  <div
+                    className="bg-blue-600 h-1 rounded-full transition-all duration-300 ease-out"
+                    style={{ width: `${overallProgress}%` }}
+                  />
                 </div>
-                <div className="space-y-2">
-                  <div className="w-full bg-gray-200 rounded-full h-1">
-                    <div
-                      className="bg-blue-600 h-1 rounded-full transition-all duration-300 ease-out"
-                      style={{ width: `${overallProgress}%` }}
-                    />
-                  </div>
-                  <div className="flex justify-between items-center text-xs text-gray-500">
-                    <span>
-                      Batch {bulkProgress.currentBatch}/
-                      {bulkProgress.totalBatches} •{" "}
-                      {completedPathsCount} completed
-                      {failedPathsCount > 0
-                        ? ` • ${failedPathsCount} failed`
-                        : ""}
-                    </span>
-                    <span>{overallProgress}%</span>
-                  </div>
+                <div className="flex justify-between items-center text-xs text-gray-500">
+                  <span>
+                    {bulkJob.counts.COMPLETED} completed
+                    {bulkJob.counts.FAILED > 0
+                      ? ` • ${bulkJob.counts.FAILED} failed`
+                      : ""}
+                    {retryingCount > 0
+                      ? ` • ${retryingCount} retrying`
+                      : ""}
+                  </span>
+                  <span>{overallProgress}%</span>
                 </div>
               </div>
-            </CardContent>
-          </Card>
-        )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Out-of-date instructions */}
+      {stalePathCount > 0 && onRegenerateStale && (
+        <Card className="border-orange-200 py-3">
+          <CardContent className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm text-orange-800">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {stalePathCount} path{stalePathCount === 1 ? "" : "s"} with
+              out-of-date instructions
+            </div>
+            <Button variant="outline" size="sm" onClick={onRegenerateStale}>
+              Regenerate
+            </Button>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Rooms List */}
       <div className="space-y-2">
@@ -982,75 +989,33 @@ function RoomListScreen({
                   </div>
 
                   {/* Paths Sublist - only show fromPaths when in bulk mode */}
-                  {(isGeneratingInstructionInBulk ||
-                    bulkGenerationCompleted) &&
+                  {bulkJob &&
                     hasPaths && (
                       <div className="border-t border-gray-100 p-2">
                         <div className="space-y-2">
                           {fromPaths.map((path) => {
                             const hasInstructions =
                               path.instructionSet &&
-                              ((path.instructionSet
-                                .descriptiveInstructions &&
-                                path.instructionSet
-                                  .descriptiveInstructions.length >
-                                  0) ||
-                                (path.instructionSet
-                                  .conciseInstructions &&
-                                  path.instructionSet
-                                    .conciseInstructions.length > 0));
-                            const status = hasInstructions
-                              ? "completed"
-                              : bulkProgress?.pathStatuses[path.id] ||
-                                "pending";
+                              (path.instructionSet.descriptiveInstructions
+                                .length > 0 ||
+                                path.instructionSet.conciseInstructions
+                                  .length > 0);
+                            // Paths outside the job show what they have
+                            const status =
+                              bulkPathStatuses[path.id] ??
+                              (hasInstructions ? "COMPLETED" : "PENDING");
                             const connectedRoom = path.toRoom;
 
-                            // Calculate progress for generating paths
-                            const pathProgressData =
-                              bulkProgress?.pathProgress[path.id];
-                            const pathProgressPercent =
-                              pathProgressData
-                                ? (() => {
-                                    const {
-                                      descriptiveSteps,
-                                      conciseInstructions,
-                                      totalSegments,
-                                    } = pathProgressData;
-                                    if (totalSegments === 0) return 0;
-                                    if (
-                                      descriptiveSteps < totalSegments
-                                    ) {
-                                      return (
-                                        (descriptiveSteps /
-                                          totalSegments) *
-                                        60
-                                      );
-                                    } else {
-                                      return (
-                                        60 +
-                                        (conciseInstructions /
-                                          totalSegments) *
-                                          40
-                                      );
-                                    }
-                                  })()
-                                : 0;
-
                             return (
                               <div
                                 key={path.id}
                                 className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded-md"
                               >
                                 <div className="flex items-center gap-2">
-                                  {status === "generating" && (
-                                    <CircularProgress
-                                      value={pathProgressPercent}
-                                      size={16}
-                                      strokeWidth={4}
-                                      className="flex-shrink-0"
-                                    />
+                                  {status === "RUNNING" && (
+                                    <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
                                   )}
-                                  {status === "completed" && (
+                                  {status === "COMPLETED" && (
                                     <div className="w-4 h-4 bg-green-500 rounded-full flex items-center justify-center flex-shrink-0">
                                       <Check
                                         className="w-3 h-3 text-white"
@@ -1058,7 +1023,7 @@ function RoomListScreen({
                                       />
                                     </div>
                                   )}
-                                  {status === "pending" && (
+                                  {status === "PENDING" && (
                                     <CircularProgress
                                       value={0}
                                       size={24}
@@ -1066,17 +1031,25 @@ function RoomListScreen({
                                       className="flex-shrink-0"
                                     />
                                   )}
-                                  {status === "failed" && (
+                                  {status === "FAILED" && (
                                     <Badge
                                       variant="destructive"
                                       className="text-xs"
                                     >
-                                      {status}
+                                      failed
+                                    </Badge>
+                                  )}
+                                  {status === "CANCELLED" && (
+                                    <Badge
+                                      variant="outline"
+                                      className="text-xs"
+                                    >
+                                      cancelled
                                     </Badge>
                                   )}
                                   <span
                                     className={`text-sm ${
-                                      status === "generating"
+                                      status === "RUNNING"
                                         ? "generating-text-animation"
                                         : ""
                                     }`}
@@ -1123,12 +1096,16 @@ interface PathCreationNoticeScreenProps {
   message: string;
   onCancel?: () => void;
   onUndo?: () => void;
+  bidirectional?: boolean;
+  onBidirectionalChange?: (bidirectional: boolean) => void;
 }
 
 function PathCreationNoticeScreen({
   message,
   onCancel,
   onUndo,
+  bidirectional = false,
+  onBidirectionalChange,
 }: PathCreationNoticeScreenProps) {
   return (
     <div className="h-full flex items-start justify-center pt-8">
@@ -1138,6 +1115,20 @@ function PathCreationNoticeScreen({
             <div className="text-lg font-medium text-gray-900">
               {message}
             </div>
+            {onBidirectionalChange && (
+              <div className="flex items-center justify-center gap-2">
+                <Checkbox
+                  id="bidirectional-path"
+                  checked={bidirectional}
+                  onCheckedChange={(checked) =>
+                    onBidirectionalChange(checked === true)
+                  }
+                />
+                <Label htmlFor="bidirectional-path" className="text-sm">
+                  Also create the way back
+                </Label>
+              </div>
+            )}
             <div className="flex gap-2 justify-center">
               {onUndo && (
                 <Button variant="outline" onClick={onUndo}>
@@ -1161,8 +1152,10 @@ interface RoomDetailsScreenProps {
   room: Room;
   onPathSelect?: (pathId: string) => void;
   onRoomNumberUpdate?: (roomId: string, number: string) => void;
+  onRoomAliasesUpdate?: (roomId: string, aliases: string[]) => void;
   onRoomDelete?: (roomId: string) => void;
   onPathDelete?: (pathId: string) => void;
+  onPathReverse?: (pathId: string) => void;
   onPathCreateStart?: (sourceRoomId: string) => void;
 }
 
@@ -1170,13 +1163,36 @@ function RoomDetailsScreen({
   room,
   onPathSelect,
   onRoomNumberUpdate,
+  onRoomAliasesUpdate,
   onRoomDelete,
   onPathDelete,
+  onPathReverse,
   onPathCreateStart,
 }: RoomDetailsScreenProps) {
   const connectedPaths = getConnectedPaths(room);
   const queryClient = useQueryClient();
   const [isQRModalOpen, setIsQRModalOpen] = useState(false);
+  // Other names, edited as a comma-separated list
+  const [aliasesText, setAliasesText] = useState(room.aliases.join(", "));
+
+  useEffect(() => {
+    setAliasesText(room.aliases.join(", "));
+  }, [room.id, room.aliases.join(", ")]);
+
+  const handleAliasesBlur = () => {
+    if (!onRoomAliasesUpdate) return;
+    const aliases = aliasesText
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+    if (aliases.join(", ") === room.aliases.join(", ")) return;
+    if (!aliases.every((alias) => ROOM_NAME_PATTERN.test(alias))) {
+      toast.error(ROOM_NAME_RULE);
+      setAliasesText(room.aliases.join(", "));
+      return;
+    }
+    onRoomAliasesUpdate(room.id, aliases);
+  };
 
   // Fetch user settings for step size adjustment in previews
   const { data: userSettings } = useQuery(
@@ -1205,6 +1221,14 @@ function RoomDetailsScreen({
   const handleNumberBlur = () => {
     if (!onRoomNumberUpdate) return;
     const trimmedNumber = room.number.trim();
+    if (!ROOM_NUMBER_PATTERN.test(trimmedNumber)) {
+      toast.error(ROOM_NUMBER_RULE);
+      // The cache holds what was typed; refetch to put the saved number back
+      queryClient.invalidateQueries({
+        queryKey: trpc.floor.getFloorData.queryKey({ floorId: room.floorId }),
+      });
+      return;
+    }
     onRoomNumberUpdate(room.id, trimmedNumber);
     toast.success(`Room number updated to "${trimmedNumber}"`);
   };
@@ -1287,10 +1311,26 @@ function RoomDetailsScreen({
                 onChange={(e) => handleNumberChange(e.target.value)}
                 onBlur={handleNumberBlur}
                 onKeyDown={handleNumberKeyDown}
+                maxLength={ROOM_NUMBER_MAX_LENGTH}
                 className="flex-1 h-8 text-sm"
                 placeholder="Room number"
               />
             </div>
+            {onRoomAliasesUpdate && (
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Also called:</span>
+                <Input
+                  value={aliasesText}
+                  onChange={(e) => setAliasesText(e.target.value)}
+                  onBlur={handleAliasesBlur}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  className="flex-1 h-8 text-sm"
+                  placeholder="e.g. Toilets, Washroom"
+                />
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1329,6 +1369,11 @@ function RoomDetailsScreen({
                   ? path.toRoom
                   : path.fromRoom;
                 const direction = isFromRoom ? "→" : "←";
+                const hasReverse = connectedPaths.some(
+                  (other) =>
+                    other.fromRoomId === path.toRoomId &&
+                    other.toRoomId === path.fromRoomId
+                );
 
                 return (
                   <div
@@ -1372,6 +1417,20 @@ function RoomDetailsScreen({
                                 }`;
                           })()}
                         </Badge>
+                        {onPathReverse && !hasReverse && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Create reverse path"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onPathReverse(path.id);
+                            }}
+                            className="h-6 w-6 p-0"
+                          >
+                            <ArrowLeftRight className="h-3 w-3" />
+                          </Button>
+                        )}
                         {onPathDelete && (
                           <Button
                             variant="ghost"
@@ -1392,15 +1451,22 @@ function RoomDetailsScreen({
                       <div className="space-y-1 mt-2">
                         <div className="text-xs text-gray-600">
                           <strong>Instructions:</strong>
+                          {path.instructionsStale && (
+                            <span className="text-orange-600">
+                              {" "}
+                              (out of date)
+                            </span>
+                          )}
                         </div>
                         <div className="text-xs">
-                          {adjustInstructionText(
-                            path.instructionSet
-                              .descriptiveInstructions?.[0] ||
-                              path.instructionSet
-                                .conciseInstructions?.[0] ||
-                              "",
-                            userSettings?.stepSize
+                          {renderInstruction(
+                            path.instructionSet.descriptiveInstructions[0] ||
+                              path.instructionSet.conciseInstructions[0] ||
+                              [],
+                            {
+                              strideMetres:
+                                resolveStrideMetres(userSettings),
+                            }
                           ) || "No instructions available"}
                         </div>
                       </div>
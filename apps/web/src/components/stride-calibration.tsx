@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface StrideCalibrationProps {
+  // Calibrated stride; null while the step size setting is used
+  strideLengthMetres: number | null;
+  onCalibrate: (distanceMetres: number, stepCount: number) => void;
+  onClear: () => void;
+  isSaving?: boolean;
+  className?: string;
+}
+
+export default function StrideCalibration({
+  strideLengthMetres,
+  onCalibrate,
+  onClear,
+  isSaving = false,
+  className = "",
+}: StrideCalibrationProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [distance, setDistance] = useState("10");
+  const [stepCount, setStepCount] = useState("");
+
+  const parsedDistance = Number.parseFloat(distance);
+  const parsedSteps = Number.parseInt(stepCount);
+  const canSave = parsedDistance > 0 && parsedSteps > 0 && !isSaving;
+
+  if (!isOpen) {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        {strideLengthMetres ? (
+          <>
+            <span className="text-sm font-medium">
+              Your stride: {strideLengthMetres.toFixed(2)} m
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsOpen(true)}
+            >
+              Recalibrate
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onClear}>
+              Use step size
+            </Button>
+          </>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsOpen(true)}
+          >
+            Calibrate my stride
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col gap-2 ${className}`}>
+      <p className="text-sm text-gray-600">
+        Walk a distance you know, such as a 10 m corridor, counting
+        your steps as you go.
+      </p>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>I walked</span>
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          className="w-20"
+          aria-label="Distance walked in metres"
+          value={distance}
+          onChange={(e) => setDistance(e.target.value)}
+        />
+        <span>m in</span>
+        <Input
+          type="number"
+          min={1}
+          step={1}
+          className="w-20"
+          aria-label="Number of steps"
+          value={stepCount}
+          onChange={(e) => setStepCount(e.target.value)}
+        />
+        <span>steps</span>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={!canSave}
+          onClick={() => {
+            onCalibrate(parsedDistance, parsedSteps);
+            setIsOpen(false);
+            setStepCount("");
+          }}
+        >
+          Save Stride
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setIsOpen(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  areTurnThresholdsOrdered,
+  turnThresholdsFromSettings,
+  type TurnThresholdSettings,
+} from "@sightmap/common/navigation";
+
+const FIELDS: {
+  key: keyof TurnThresholdSettings;
+  label: string;
+}[] = [
+  { key: "straightTurnDegrees", label: "Keep going below" },
+  { key: "slightTurnDegrees", label: "Bear slightly up to" },
+  { key: "sharpTurnDegrees", label: "Sharp turn from" },
+  { key: "turnAroundDegrees", label: "Turn around from" },
+];
+
+interface TurnThresholdsEditorProps {
+  value: TurnThresholdSettings;
+  onSave: (thresholds: TurnThresholdSettings) => void;
+}
+
+// Angles, in degrees, at which a building's instructions call a turn
+// slight, sharp or turning around
+export default function TurnThresholdsEditor({
+  value,
+  onSave,
+}: TurnThresholdsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  // Start from the saved angles each time the editor opens
+  useEffect(() => {
+    if (open) setDraft(value);
+  }, [open]);
+
+  const isOrdered = areTurnThresholdsOrdered(
+    turnThresholdsFromSettings(draft)
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="h-4 w-4 mr-1" />
+          Turn angles
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        {FIELDS.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <Label htmlFor={key} className="text-sm">
+              {label}
+            </Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id={key}
+                type="number"
+                min={0}
+                max={180}
+                className="h-8 w-20"
+                value={draft[key]}
+                onChange={(e) =>
+                  setDraft({ ...draft, [key]: Number(e.target.value) })
+                }
+              />
+              <span className="text-sm text-gray-500">°</span>
+            </div>
+          </div>
+        ))}
+        {!isOrdered && (
+          <p className="text-xs text-red-600">
+            Each angle must be larger than the one before it, up to 180°.
+          </p>
+        )}
+        <Button
+          className="w-full"
+          size="sm"
+          disabled={!isOrdered}
+          onClick={() => {
+            onSave(draft);
+            setOpen(false);
+          }}
+        >
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
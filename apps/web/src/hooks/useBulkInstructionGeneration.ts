@@ -1,375 +1,110 @@
-import { useState, useCallback } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef } from "react";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { trpc } from "@/utils/trpc";
 import { toast } from "sonner";
 import type { RouterOutputs } from "@/utils/trpc";
-import { SERVER_URL } from "@/utils/constnats";
+import type { GenerationTaskStatus } from "@sightmap/common/prisma/enums";
 
-type Room = RouterOutputs["floor"]["getFloorData"]["rooms"][number];
-type Path = Room["fromPaths"][number];
-
-interface BulkGenerationProgress {
-  totalPaths: number;
-  currentBatch: number;
-  totalBatches: number;
-  pathStatuses: Record<
-    string,
-    "pending" | "generating" | "completed" | "failed"
-  >;
-  pathProgress: Record<
-    string,
-    {
-      descriptiveSteps: number;
-      conciseInstructions: number;
-      totalSegments: number;
-    }
-  >;
-}
+export type GenerationJob = NonNullable<
+  RouterOutputs["generationJob"]["getLatest"]
+>;
 
 interface UseBulkInstructionGenerationProps {
   floorId: string;
-  onProgress?: (progress: BulkGenerationProgress) => void;
-  onComplete?: (
-    results: { pathId: string; success: boolean }[]
-  ) => void;
 }
 
+interface EnqueueOptions {
+  // Only these paths; the whole floor otherwise
+  pathIds?: string[];
+  // Skip paths that already have descriptive instructions
+  missingOnly?: boolean;
+}
+
+// How often a running job is checked for progress
+const JOB_POLL_INTERVAL_MS = 2_000;
+
+const isActive = (job: GenerationJob | null | undefined) =>
+  job?.status === "QUEUED" || job?.status === "RUNNING";
+
+// Bulk generation runs as a job on the server. This hook starts and
+// cancels jobs for a floor and follows the latest one, including jobs
+// started from another tab or before the page was reloaded.
 export function useBulkInstructionGeneration({
   floorId,
-  onProgress,
-  onComplete,
 }: UseBulkInstructionGenerationProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState<BulkGenerationProgress>({
-    totalPaths: 0,
-    currentBatch: 0,
-    totalBatches: 0,
-    pathStatuses: {},
-    pathProgress: {},
-  });
-
   const queryClient = useQueryClient();
+  const latestJobKey = trpc.generationJob.getLatest.queryKey({ floorId });
+
+  const { data: job } = useQuery({
+    ...trpc.generationJob.getLatest.queryOptions({ floorId }),
+    enabled: !!floorId,
+    refetchInterval: (query) =>
+      isActive(query.state.data) ? JOB_POLL_INTERVAL_MS : false,
+  });
 
-  const saveInstructionsMutation = useMutation(
-    trpc.floor.saveInstructions.mutationOptions({
+  const enqueueMutation = useMutation(
+    trpc.generationJob.enqueue.mutationOptions({
+      onSuccess: (job) => {
+        queryClient.setQueryData(latestJobKey, job);
+      },
       onError: (error) => {
-        toast.error("Failed to save instructions: " + error.message);
+        toast.error("Could not start generation: " + error.message);
       },
     })
   );
 
-  const parseCompletionContent = (content: string) => {
-    // Extract steps incrementally - don't wait for STEPS_END
-    const stepsSection =
-      content.match(/SSTART\s*\n([\s\S]*?)(SEND|$)/)?.[1] || "";
-    const steps = stepsSection
-      .split("\n")
-      .filter((line) => line.startsWith("STEP:"))
-      .map((line) => line.replace("STEP: ", "").trim());
-
-    // Extract concise instructions
-    const conciseSection =
-      content.match(/C:\s*\n([\s\S]*?)(EC|$)/)?.[1] || "";
-    const conciseInstructions = conciseSection
-      .split("\n")
-      .filter((line) => line.trim());
-
-    return { steps, conciseInstructions };
-  };
-
-  const generateInstructionsForPath = useCallback(
-    async (
-      path: Path,
-      onStreamProgress?: (
-        pathId: string,
-        progress: {
-          descriptiveSteps: number;
-          conciseInstructions: number;
-          totalSegments: number;
-        }
-      ) => void
-    ): Promise<boolean> => {
-      try {
-        // Make direct API call to generate instructions
-        const response = await fetch(
-          `${SERVER_URL}/generate-instructions`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              prompt: JSON.stringify({ pathId: path.id }),
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error("No response body");
-        }
-
-        let completion = "";
-        const decoder = new TextDecoder();
-        let buffer = "";
-        const totalSegments = Math.max(
-          0,
-          (path.anchors?.length || 0) - 1
-        );
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-
-          // Process complete lines
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6); // Remove "data: " prefix
-              if (data === "[DONE]") {
-                // End of stream
-                break;
-              }
-              try {
-                const parsed = JSON.parse(data);
-                // Extract text content from different possible fields
-                if (parsed.text) {
-                  completion += parsed.text;
-                } else if (parsed.content) {
-                  completion += parsed.content;
-                } else if (
-                  parsed.type === "text-delta" &&
-                  parsed.delta
-                ) {
-                  completion += parsed.delta;
-                } else if (parsed.delta && parsed.delta.text) {
-                  completion += parsed.delta.text;
-                } else if (
-                  parsed.choices &&
-                  parsed.choices[0] &&
-                  parsed.choices[0].text
-                ) {
-                  completion += parsed.choices[0].text;
-                } else if (
-                  parsed.choices &&
-                  parsed.choices[0] &&
-                  parsed.choices[0].delta &&
-                  parsed.choices[0].delta.content
-                ) {
-                  completion += parsed.choices[0].delta.content;
-                }
-                // Log unknown event types for debugging
-                // else if (
-                //   parsed.type &&
-                //   ![
-                //     "text-end",
-                //     "finish-step",
-                //     "finish",
-                //     "text-delta",
-                //   ].includes(parsed.type)
-                // ) {
-                //   console.log("Unknown event type:", parsed);
-                // }
-
-                // Update progress on each chunk
-                if (onStreamProgress) {
-                  const parsedData =
-                    parseCompletionContent(completion);
-                  onStreamProgress(path.id, {
-                    descriptiveSteps: parsedData.steps.length,
-                    conciseInstructions:
-                      parsedData.conciseInstructions.length,
-                    totalSegments,
-                  });
-                }
-              } catch (e) {
-                // Ignore invalid JSON
-              }
-            }
-          }
-        }
-
-        const parsedData = parseCompletionContent(completion);
-
-        if (parsedData.steps.length > 0) {
-          // Save instructions
-          await saveInstructionsMutation.mutateAsync({
-            pathId: path.id,
-            descriptiveInstructions: parsedData.steps,
-            conciseInstructions: parsedData.conciseInstructions || [],
-          });
-          return true;
-        } else {
-          console.error(
-            `No instructions generated for path ${path.id}`
-          );
-          return false;
-        }
-      } catch (error) {
-        console.error(
-          `Error generating instructions for path ${path.id}:`,
-          error
-        );
-        return false;
-      }
-    },
-    [saveInstructionsMutation]
+  const cancelMutation = useMutation(
+    trpc.generationJob.cancel.mutationOptions({
+      onSuccess: (job) => {
+        queryClient.setQueryData(latestJobKey, job);
+        toast.info("Generation cancelled");
+      },
+      onError: (error) => {
+        toast.error("Could not cancel generation: " + error.message);
+      },
+    })
   );
 
-  const generateBulkInstructions = useCallback(
-    async (paths: Path[]) => {
-      if (paths.length === 0) return;
-
-      setIsGenerating(true);
-
-      const results: { pathId: string; success: boolean }[] = [];
-      const batchSize = 10;
-
-      // Initialize progress
-      const initialProgress: BulkGenerationProgress = {
-        totalPaths: paths.length,
-        currentBatch: 0,
-        totalBatches: Math.ceil(paths.length / batchSize),
-        pathStatuses: paths.reduce((acc, path) => {
-          acc[path.id] = "pending";
-          return acc;
-        }, {} as Record<string, "pending" | "generating" | "completed" | "failed">),
-        pathProgress: {},
-      };
-
-      let currentStatuses = { ...initialProgress.pathStatuses };
-
-      setProgress(initialProgress);
-      onProgress?.(initialProgress);
-
-      // Process paths in batches of 10
-      for (
-        let batchIndex = 0;
-        batchIndex < initialProgress.totalBatches;
-        batchIndex++
-      ) {
-        const batchStart = batchIndex * batchSize;
-        const batchEnd = Math.min(
-          batchStart + batchSize,
-          paths.length
-        );
-        const batch = paths.slice(batchStart, batchEnd);
-
-        // Update batch progress with current statuses
-        currentStatuses = {
-          ...currentStatuses,
-          ...batch.reduce((acc, path) => {
-            acc[path.id] = "generating";
-            return acc;
-          }, {} as Record<string, "generating">),
-        };
-
-        const batchProgress = {
-          ...initialProgress,
-          currentBatch: batchIndex + 1,
-          pathStatuses: currentStatuses,
-        };
-
-        setProgress(batchProgress);
-        onProgress?.(batchProgress);
-
-        // Process batch concurrently
-        const batchPromises = batch.map(async (path) => {
-          const success = await generateInstructionsForPath(
-            path,
-            (pathId, streamProgress) => {
-              // Update streaming progress
-              setProgress((currentProgress) => {
-                const updatedProgress = {
-                  ...currentProgress,
-                  pathProgress: {
-                    ...currentProgress.pathProgress,
-                    [pathId]: streamProgress,
-                  },
-                };
-
-                // Check if progress is 100% and set status to completed optimistically
-                const pathProgressData =
-                  updatedProgress.pathProgress[pathId];
-                if (pathProgressData) {
-                  const {
-                    descriptiveSteps,
-                    conciseInstructions,
-                    totalSegments,
-                  } = pathProgressData;
-                  if (totalSegments > 0) {
-                    const progressPercent =
-                      descriptiveSteps < totalSegments
-                        ? (descriptiveSteps / totalSegments) * 60
-                        : 60 +
-                          (conciseInstructions / totalSegments) * 40;
-                    if (progressPercent >= 100) {
-                      updatedProgress.pathStatuses = {
-                        ...updatedProgress.pathStatuses,
-                        [pathId]: "completed",
-                      };
-                    }
-                  }
-                }
-
-                onProgress?.(updatedProgress);
-                return updatedProgress;
-              });
-            }
-          );
-          results.push({ pathId: path.id, success });
-
-          // Update individual path status
-          currentStatuses = {
-            ...currentStatuses,
-            [path.id]: success ? "completed" : "failed",
-          };
-
-          const updatedProgress: BulkGenerationProgress = {
-            ...batchProgress,
-            pathStatuses: currentStatuses,
-          };
-
-          setProgress((current) => ({
-            ...updatedProgress,
-            pathProgress: current.pathProgress,
-          }));
-          onProgress?.(updatedProgress);
-
-          return success;
-        });
-
-        // Wait for all paths in this batch to complete
-        await Promise.all(batchPromises);
-      }
-
-      setIsGenerating(false);
-      onComplete?.(results);
-
-      // Invalidate queries after bulk generation is complete
-      queryClient.invalidateQueries({
-        queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
-      });
-
-      const finalResults = results.filter((r) => r.success).length;
+  // Show saved instructions as paths finish, and report the outcome once
+  // a job that was watched here is done
+  const completedCount = job?.counts.COMPLETED ?? 0;
+  const watchedJobIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!job) return;
+    queryClient.invalidateQueries({
+      queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+    });
+    if (isActive(job)) {
+      watchedJobIdRef.current = job.id;
+    } else if (
+      watchedJobIdRef.current === job.id &&
+      job.status === "COMPLETED"
+    ) {
+      watchedJobIdRef.current = null;
       toast.success(
-        `Bulk generation complete! ${finalResults}/${paths.length} paths generated successfully.`
+        `Bulk generation complete! ${job.counts.COMPLETED}/${job.counts.total} paths generated successfully.`
       );
-    },
-    [generateInstructionsForPath, onProgress, onComplete]
-  );
+    }
+  }, [job?.id, job?.status, completedCount]);
+
+  const pathStatuses: Record<string, GenerationTaskStatus> =
+    Object.fromEntries(
+      (job?.tasks ?? []).map((task) => [task.pathId, task.status])
+    );
 
   return {
-    isGenerating,
-    progress,
-    generateBulkInstructions,
+    job: job ?? null,
+    isGenerating: isActive(job),
+    isStarting: enqueueMutation.isPending,
+    pathStatuses,
+    generateBulkInstructions: (options: EnqueueOptions = {}) =>
+      enqueueMutation.mutate({ floorId, ...options }),
+    cancelBulkGeneration: () => {
+      if (job && isActive(job)) cancelMutation.mutate({ id: job.id });
+    },
   };
 }
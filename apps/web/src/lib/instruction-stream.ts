@@ -0,0 +1,79 @@
+import type { InstructionGenerator } from "@sightmap/common/prisma/enums";
+import {
+  EMPTY_INSTRUCTION_STREAM,
+  readInstructionStreamChunk,
+  type InstructionStreamState,
+} from "@sightmap/common/generation";
+import { SERVER_URL } from "@/utils/constnats";
+
+interface StreamInstructionsOptions {
+  pathId: string;
+  // Overrides the building's generator when set
+  generator?: InstructionGenerator;
+  signal?: AbortSignal;
+  // Called with the instructions so far after every chunk
+  onUpdate?: (state: InstructionStreamState) => void;
+}
+
+// Generate and save instructions for a path, reading the server's progress
+// stream. Shared by the instructions screen and bulk generation. Resolves
+// with the saved instructions and rejects when the server reports an error.
+export async function streamInstructions({
+  pathId,
+  generator,
+  signal,
+  onUpdate,
+}: StreamInstructionsOptions): Promise<InstructionStreamState> {
+  const response = await fetch(`${SERVER_URL}/generate-instructions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      prompt: JSON.stringify({ pathId, generator }),
+    }),
+    signal,
+    // The server saves the instructions against the signed-in editor
+    credentials: "include",
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to generate instructions (${response.status})`);
+  }
+
+  const reader = response.body
+    .pipeThrough(new TextDecoderStream())
+    .getReader();
+  let state = EMPTY_INSTRUCTION_STREAM;
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Server-sent events, one JSON chunk per "data: " line
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue;
+      const data = line.slice("data: ".length);
+      if (data === "[DONE]") continue;
+
+      const chunk: unknown = JSON.parse(data);
+      if (isErrorChunk(chunk)) throw new Error(chunk.errorText);
+      const next = readInstructionStreamChunk(state, chunk);
+      if (next !== state) {
+        state = next;
+        onUpdate?.(state);
+      }
+    }
+  }
+
+  return state;
+}
+
+const isErrorChunk = (
+  chunk: unknown
+): chunk is { type: "error"; errorText: string } =>
+  typeof chunk === "object" &&
+  chunk !== null &&
+  (chunk as { type?: unknown }).type === "error";
@@ -10,6 +10,12 @@ import {
 import DrawingCanvas from "@/components/drawing-canvas";
 import Sidebar from "@/components/sidebar";
 import { useState, useRef } from "react";
+import { toast } from "sonner";
+import type { PathValidationIssue } from "@sightmap/common/pathValidation";
+import {
+  ROOM_NAME_RULE,
+  ROOM_NUMBER_RULE,
+} from "@sightmap/common/roomText";
 
 type Position = { x: number; y: number };
 
@@ -29,6 +35,10 @@ function RouteComponent() {
   const queryClient = useQueryClient();
   const drawingCanvasRef = useRef<{
     startPathCreation: (sourceRoomId: string) => void;
+    startPathCreationForPair: (
+      sourceRoomId: string,
+      destinationRoomId: string,
+    ) => void;
     getPathCreationState: () =>
       | "idle"
       | "selecting_destination"
@@ -54,6 +64,21 @@ function RouteComponent() {
   const [currentPathPoints, setCurrentPathPoints] = useState<
     Position[]
   >([]);
+  const [createBidirectionalPath, setCreateBidirectionalPath] =
+    useState(false);
+  // Last path the server refused, kept on the canvas with its problems
+  const [rejectedPath, setRejectedPath] = useState<{
+    anchors: Position[];
+    issues: PathValidationIssue[];
+  } | null>(null);
+
+  // The server queues instructions for a reverse path as it creates it;
+  // the sidebar follows that job
+  const invalidateGenerationJob = () => {
+    queryClient.invalidateQueries({
+      queryKey: trpc.generationJob.getLatest.queryKey({ floorId }),
+    });
+  };
 
   const handlePathCreateCancel = () => {
     if (drawingCanvasRef.current) {
@@ -118,6 +143,13 @@ function RouteComponent() {
           queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
         });
       },
+      onError: () => {
+        toast.error(`Could not save the room name. ${ROOM_NAME_RULE}`);
+        // Put back the saved name the sidebar had already shown
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+      },
     }),
   );
 
@@ -128,15 +160,59 @@ function RouteComponent() {
           queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
         });
       },
+      onError: () => {
+        toast.error(`Could not save the room number. ${ROOM_NUMBER_RULE}`);
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+      },
+    }),
+  );
+
+  const updateRoomAliases = useMutation(
+    trpc.floor.updateRoomAliases.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+      },
+      onError: (error) => {
+        toast.error(
+          "Could not save the room's other names: " + error.message,
+        );
+      },
     }),
   );
 
   const createPath = useMutation(
     trpc.floor.createPath.mutationOptions({
+      onSuccess: (path) => {
+        setRejectedPath(null);
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+        if (path.reversePath) invalidateGenerationJob();
+      },
+      onError: (error, variables) => {
+        const issues = error.data?.pathIssues;
+        if (issues) {
+          setRejectedPath({ anchors: variables.anchors, issues });
+        }
+        toast.error("Path not saved: " + error.message);
+      },
+    }),
+  );
+
+  const createReversePath = useMutation(
+    trpc.floor.createReversePath.mutationOptions({
       onSuccess: () => {
         queryClient.invalidateQueries({
           queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
         });
+        invalidateGenerationJob();
+      },
+      onError: (error) => {
+        toast.error("Could not create the reverse path: " + error.message);
       },
     }),
   );
@@ -151,6 +227,20 @@ function RouteComponent() {
     }),
   );
 
+  const calibrateScale = useMutation(
+    trpc.floor.calibrateScale.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: trpc.floor.getFloorData.queryKey({ floorId }),
+        });
+        toast.success("Floor scale saved");
+      },
+      onError: (error) => {
+        toast.error("Scale not saved: " + error.message);
+      },
+    }),
+  );
+
   const createFloorImage = useMutation(
     trpc.floorImage.createFloorImage.mutationOptions({
       onSuccess: () => {
@@ -187,6 +277,68 @@ function RouteComponent() {
     }),
   );
 
+  const corridorGraph = useQuery(
+    trpc.corridor.getGraph.queryOptions({ floorId }),
+  );
+
+  const invalidateCorridorGraph = () => {
+    queryClient.invalidateQueries({
+      queryKey: trpc.corridor.getGraph.queryKey({ floorId }),
+    });
+  };
+
+  const createCorridorNode = useMutation(
+    trpc.corridor.createNode.mutationOptions({
+      onSuccess: invalidateCorridorGraph,
+    }),
+  );
+
+  const createCorridorEdge = useMutation(
+    trpc.corridor.createEdge.mutationOptions({
+      onSuccess: invalidateCorridorGraph,
+    }),
+  );
+
+  const deleteCorridorNode = useMutation(
+    trpc.corridor.deleteNode.mutationOptions({
+      onSuccess: invalidateCorridorGraph,
+    }),
+  );
+
+  const setCorridorEdgeHeavyDoor = useMutation(
+    trpc.corridor.setEdgeHeavyDoor.mutationOptions({
+      onSuccess: invalidateCorridorGraph,
+    }),
+  );
+
+  const connectors = useQuery(
+    trpc.connector.getByFloor.queryOptions({ floorId }),
+  );
+
+  const invalidateConnectors = () => {
+    queryClient.invalidateQueries({
+      queryKey: trpc.connector.getByFloor.queryKey({ floorId }),
+    });
+  };
+
+  const createConnector = useMutation(
+    trpc.connector.create.mutationOptions({
+      onSuccess: invalidateConnectors,
+    }),
+  );
+
+  const deleteConnector = useMutation(
+    trpc.connector.delete.mutationOptions({
+      onSuccess: invalidateConnectors,
+    }),
+  );
+
+  const moveConnectorLanding = useMutation(
+    trpc.connector.moveLanding.mutationOptions({
+      onSuccess: invalidateConnectors,
+    }),
+  );
+
   const handleRoomUpdate = (
     input: RouterInputs["floor"]["updateRoomCoordinates"],
   ) => {
@@ -226,6 +378,7 @@ function RouteComponent() {
   };
 
   const handlePathCreateStart = (sourceRoomId: string) => {
+    setRejectedPath(null);
     // Store the source room ID for cancel functionality
     setPathSourceRoomId(sourceRoomId);
     // Call the startPathCreation method on the DrawingCanvas ref
@@ -234,6 +387,21 @@ function RouteComponent() {
     }
   };
 
+  // Start drawing a path for a pair picked from the coverage matrix
+  const handlePathCreateForPair = (
+    sourceRoomId: string,
+    destinationRoomId: string,
+  ) => {
+    setRejectedPath(null);
+    setSelectedRoomId(sourceRoomId);
+    setSelectedPathId(null);
+    setPathSourceRoomId(sourceRoomId);
+    drawingCanvasRef.current?.startPathCreationForPair(
+      sourceRoomId,
+      destinationRoomId,
+    );
+  };
+
   const handlePathCreate = (
     fromRoomId: string,
     toRoomId: string,
@@ -243,6 +411,7 @@ function RouteComponent() {
       fromRoomId,
       toRoomId,
       anchors,
+      bidirectional: createBidirectionalPath,
     });
     // Clear the stored source room ID when path creation completes
     setPathSourceRoomId(null);
@@ -292,10 +461,19 @@ function RouteComponent() {
         onRoomNumberUpdate={(roomId, number) => {
           updateRoomNumber.mutate({ roomId, number });
         }}
+        onRoomAliasesUpdate={(roomId, aliases) => {
+          updateRoomAliases.mutate({ roomId, aliases });
+        }}
         onRoomDelete={handleRoomDelete}
         onPathDelete={handlePathDelete}
+        onPathReverse={(pathId) => {
+          createReversePath.mutate({ pathId });
+        }}
         onPathCreateStart={handlePathCreateStart}
+        onPathCreateForPair={handlePathCreateForPair}
         pathCreationState={pathCreationState}
+        createBidirectionalPath={createBidirectionalPath}
+        onCreateBidirectionalPathChange={setCreateBidirectionalPath}
         onPathCreateCancel={handlePathCreateCancel}
         currentPathPoints={currentPathPoints}
         onUndoLastPoint={handleUndoLastPoint}
@@ -339,6 +517,50 @@ function RouteComponent() {
           onImageDelete={(id) => {
             deleteFloorImage.mutate({ id });
           }}
+          corridorGraph={
+            corridorGraph.data || { nodes: [], edges: [] }
+          }
+          onCorridorNodeCreate={(x, y, roomId, connectToNodeId) =>
+            createCorridorNode.mutateAsync({
+              floorId,
+              x,
+              y,
+              roomId,
+              connectToNodeId,
+            })
+          }
+          onCorridorEdgeCreate={(fromNodeId, toNodeId) => {
+            createCorridorEdge.mutate({ fromNodeId, toNodeId });
+          }}
+          onCorridorNodeDelete={(nodeId) => {
+            deleteCorridorNode.mutate({ nodeId });
+          }}
+          onCorridorEdgeHeavyDoorChange={(edgeId, heavyDoor) => {
+            setCorridorEdgeHeavyDoor.mutate({ edgeId, heavyDoor });
+          }}
+          rejectedPath={rejectedPath}
+          onRejectedPathDismiss={() => setRejectedPath(null)}
+          connectors={connectors.data || []}
+          buildingFloors={floorData.data?.building.floors || []}
+          onConnectorCreate={({ x, y, ...connector }) => {
+            // The other landing is placed later, on its own floor
+            createConnector.mutate({
+              ...connector,
+              fromFloorId: floorId,
+              fromX: x,
+              fromY: y,
+            });
+          }}
+          onConnectorDelete={(connectorId) => {
+            deleteConnector.mutate({ connectorId });
+          }}
+          onConnectorLandingMove={(connectorId, { x, y }) => {
+            moveConnectorLanding.mutate({ connectorId, floorId, x, y });
+          }}
+          pixelsPerMetre={floorData.data?.pixelsPerMetre ?? null}
+          onScaleCalibrate={(from, to, metres) => {
+            calibrateScale.mutate({ floorId, from, to, metres });
+          }}
         />
       </div>
     </div>
@@ -17,6 +17,8 @@ import {
   PopoverTrigger,
   PopoverContent,
 } from "@/components/ui/popover";
+import InstructionGeneratorSelector from "@/components/instruction-generator-selector";
+import TurnThresholdsEditor from "@/components/turn-thresholds-editor";
 import { authClient } from "@/lib/auth-client";
 import { trpc } from "@/utils/trpc";
 import {
@@ -75,6 +77,28 @@ function RouteComponent() {
       },
     })
   );
+  const updateInstructionGenerator = useMutation(
+    trpc.building.updateInstructionGenerator.mutationOptions({
+      onSuccess: () => {
+        buildingsQuery.refetch();
+        toast.success("Instruction generator updated!");
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    })
+  );
+  const updateTurnThresholds = useMutation(
+    trpc.building.updateTurnThresholds.mutationOptions({
+      onSuccess: () => {
+        buildingsQuery.refetch();
+        toast.success("Turn angles updated!");
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    })
+  );
   const createFloor = useMutation(
     trpc.floor.create.mutationOptions({
       onSuccess: () => {
@@ -284,6 +308,26 @@ function RouteComponent() {
                 <h2 className="text-xl font-semibold">
                   {selectedBuilding.name}
                 </h2>
+                <div className="flex items-center gap-2">
+                  <TurnThresholdsEditor
+                    value={selectedBuilding}
+                    onSave={(thresholds) =>
+                      updateTurnThresholds.mutate({
+                        id: selectedBuilding.id,
+                        ...thresholds,
+                      })
+                    }
+                  />
+                  <InstructionGeneratorSelector
+                    value={selectedBuilding.instructionGenerator}
+                    onChange={(instructionGenerator) =>
+                      updateInstructionGenerator.mutate({
+                        id: selectedBuilding.id,
+                        instructionGenerator,
+                      })
+                    }
+                  />
+                </div>
               </div>
               <div className="mb-4">
                 <form
@@ -1,7 +1,7 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { Loader2, ArrowLeft } from "lucide-react";
 import { useState, useEffect } from "react";
-import { trpc } from "@/utils/trpc";
+import { trpc, queryClient } from "@/utils/trpc";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import {
   Card,
@@ -11,38 +11,31 @@ import {
 } from "@/components/ui/card";
 import { authClient } from "@/lib/auth-client";
 import StepSizeSelector from "@/components/step-size-selector";
-import type { StepSize } from "@sightmap/common/prisma/enums";
-
-// Helper function to adjust step numbers in instruction text
-function adjustInstructionText(
-  text: string,
-  stepSize?: StepSize
-): string {
-  if (!stepSize) return text;
-
-  const multipliers: Record<StepSize, number> = {
-    SMALL: 1.4, // Small steps = more steps needed
-    MEDIUM: 1.0, // Medium steps = normal
-    LARGE: 0.7, // Large steps = fewer steps needed
-  };
-
-  const stepMatch = text.match(/\{\{(\d+)\}\}/);
-  const stepNumber = stepMatch ? parseInt(stepMatch[1]) : 0;
-
-  const adjustedStepNumber = Math.round(
-    stepNumber * multipliers[stepSize]
-  );
-
-  // First replace {{number}} with adjusted number, then remove remaining unpaired { and }
-  let cleanedText = text.replace(
-    /\{\{(\d+)\}\}/,
-    adjustedStepNumber.toString()
-  );
-  // Remove any remaining unpaired { and }
-  cleanedText = cleanedText.replace(/[{}]/g, "");
-
-  return cleanedText;
-}
+import StrideCalibration from "@/components/stride-calibration";
+import DistanceUnitSelector, {
+  getStoredDistanceUnit,
+} from "@/components/distance-unit-selector";
+import MobilityProfileSelector, {
+  getStoredMobilityProfile,
+} from "@/components/mobility-profile-selector";
+import type {
+  DistanceUnit,
+  MobilityProfile,
+  StepSize,
+} from "@sightmap/common/prisma/enums";
+import { MOBILITY_PROFILE_LABELS } from "@sightmap/common/mobility";
+import { resolveStrideMetres } from "@sightmap/common/stride";
+import {
+  renderInstruction,
+  type Instruction,
+} from "@sightmap/common/instructions";
+import {
+  DEFAULT_DISTANCE_UNIT,
+  estimateWalkingMinutes,
+  formatDistance,
+  formatWalkingTime,
+} from "@sightmap/common/units";
+import { toast } from "sonner";
 
 export const Route = createFileRoute("/rooms/$fromRoomId/$toRoomId")({
   component: RouteComponent,
@@ -51,14 +44,24 @@ export const Route = createFileRoute("/rooms/$fromRoomId/$toRoomId")({
 function RouteComponent() {
   const { fromRoomId, toRoomId } = Route.useParams();
   const [stepSize, setStepSize] = useState<StepSize>("MEDIUM");
+  const [mobilityProfile, setMobilityProfile] =
+    useState<MobilityProfile>();
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>(
+    () => getStoredDistanceUnit() ?? DEFAULT_DISTANCE_UNIT
+  );
 
   const { data: session } = authClient.useSession();
   const isLoggedIn = !!session;
 
+  // Without a choice on this page the server uses the saved profile of a
+  // signed-in user; guests fall back to the one kept in localStorage
   const pathData = useQuery(
     trpc.room.getPathInstructions.queryOptions({
       fromRoomId,
       toRoomId,
+      mobilityProfile:
+        mobilityProfile ??
+        (isLoggedIn ? undefined : getStoredMobilityProfile() ?? undefined),
     })
   );
 
@@ -74,13 +77,59 @@ function RouteComponent() {
     trpc.userSettings.updateStepSize.mutationOptions()
   );
 
-  // Set initial step size from backend if logged in
+  // Set initial step size and distance unit from backend if logged in
   useEffect(() => {
     if (isLoggedIn && userSettingsData.data) {
       setStepSize(userSettingsData.data.stepSize);
+      setDistanceUnit(userSettingsData.data.distanceUnit);
     }
   }, [isLoggedIn, userSettingsData.data]);
 
+  const updateDistanceUnitMutation = useMutation(
+    trpc.userSettings.updateDistanceUnit.mutationOptions()
+  );
+
+  const handleDistanceUnitChange = (newUnit: DistanceUnit) => {
+    setDistanceUnit(newUnit);
+    if (isLoggedIn) {
+      updateDistanceUnitMutation.mutate({ distanceUnit: newUnit });
+    }
+  };
+
+  const invalidateUserSettings = () => {
+    queryClient.invalidateQueries({
+      queryKey: trpc.userSettings.get.queryKey(),
+    });
+  };
+
+  const calibrateStrideMutation = useMutation(
+    trpc.userSettings.calibrateStride.mutationOptions({
+      onSuccess: invalidateUserSettings,
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    })
+  );
+
+  const clearStrideMutation = useMutation(
+    trpc.userSettings.clearStride.mutationOptions({
+      onSuccess: invalidateUserSettings,
+    })
+  );
+
+  const updateMobilityProfileMutation = useMutation(
+    trpc.userSettings.updateMobilityProfile.mutationOptions()
+  );
+
+  const handleMobilityProfileChange = (newProfile: MobilityProfile) => {
+    setMobilityProfile(newProfile);
+    if (isLoggedIn) {
+      updateMobilityProfileMutation.mutate({
+        mobilityProfile: newProfile,
+      });
+    }
+  };
+
   // Handle step size change
   const handleStepSizeChange = (newStepSize: StepSize) => {
     setStepSize(newStepSize);
@@ -105,8 +154,15 @@ function RouteComponent() {
             Error
           </h2>
           <p className="text-gray-600">
-            Failed to load path instructions
+            {pathData.error.data?.code === "NOT_FOUND"
+              ? pathData.error.message
+              : "Failed to load path instructions"}
           </p>
+          <MobilityProfileSelector
+            value={mobilityProfile}
+            onChange={handleMobilityProfileChange}
+            className="justify-center mt-4"
+          />
         </div>
       </div>
     );
@@ -114,18 +170,23 @@ function RouteComponent() {
 
   const path = pathData.data;
 
-  // Apply step size adjustment to instructions
+  // A signed-in user's calibrated stride wins over the step size setting
+  const strideLengthMetres =
+    (isLoggedIn && userSettingsData.data?.strideLengthMetres) || null;
+  const strideMetres = resolveStrideMetres({
+    strideLengthMetres,
+    stepSize,
+  });
+
+  // Convert distances to this walker's steps or the chosen unit
+  const render = (instruction: Instruction) =>
+    renderInstruction(instruction, { strideMetres, unit: distanceUnit });
+
   const adjustedDescriptiveInstructions =
-    path?.instructionSet?.descriptiveInstructions?.map(
-      (instruction: string) =>
-        adjustInstructionText(instruction, stepSize)
-    ) || [];
+    path?.instructionSet?.descriptiveInstructions.map(render) || [];
 
   const adjustedConciseInstructions =
-    path?.instructionSet?.conciseInstructions?.map(
-      (instruction: string) =>
-        adjustInstructionText(instruction, stepSize)
-    ) || [];
+    path?.instructionSet?.conciseInstructions.map(render) || [];
 
   return (
     <div className="bg-gray-50">
@@ -151,14 +212,78 @@ function RouteComponent() {
             From {path?.fromRoom.name} (Room {path?.fromRoom.number})
             to {path?.toRoom.name} (Room {path?.toRoom.number})
           </p>
+          {path?.source === "corridor" && (
+            <p className="text-sm text-gray-500 mt-1">
+              This route was computed from the corridor network
+              {path.legs.some((leg) => leg.kind === "connector") &&
+                " and changes floors by stairs or elevator"}
+              .
+            </p>
+          )}
+          {path?.source === "chained" && (
+            <p className="text-sm text-gray-500 mt-1">
+              This route joins existing paths by way of{" "}
+              {path.viaRooms.map((room) => room.name).join(", ")}.
+            </p>
+          )}
+          {path &&
+            (path.mobilityProfile ? (
+              <p className="text-sm text-gray-500 mt-1">
+                Route chosen for:{" "}
+                {MOBILITY_PROFILE_LABELS[path.mobilityProfile]}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-500 mt-1">
+                This route follows drawn paths and is not adjusted for
+                mobility profiles.
+              </p>
+            ))}
+          {path && path.lengthMetres > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              Total length:{" "}
+              {formatDistance(path.lengthMetres, distanceUnit, strideMetres)}
+              {distanceUnit === "STEPS" && " steps"}
+              {" · "}
+              Walking time:{" "}
+              {formatWalkingTime(
+                estimateWalkingMinutes(path.lengthMetres, strideMetres)
+              )}
+            </p>
+          )}
         </div>
 
-        {/* Step Size Selector */}
+        {/* Step Size, Mobility Profile and Distance Unit Selectors */}
         <Card className="mb-6">
-          <CardContent>
-            <StepSizeSelector
-              value={stepSize}
-              onChange={handleStepSizeChange}
+          <CardContent className="flex flex-wrap justify-center gap-4">
+            {!strideLengthMetres && (
+              <StepSizeSelector
+                value={stepSize}
+                onChange={handleStepSizeChange}
+                className="justify-center"
+              />
+            )}
+            {isLoggedIn && (
+              <StrideCalibration
+                strideLengthMetres={strideLengthMetres}
+                onCalibrate={(distanceMetres, stepCount) =>
+                  calibrateStrideMutation.mutate({
+                    distanceMetres,
+                    stepCount,
+                  })
+                }
+                onClear={() => clearStrideMutation.mutate()}
+                isSaving={calibrateStrideMutation.isPending}
+                className="justify-center"
+              />
+            )}
+            <MobilityProfileSelector
+              value={path?.mobilityProfile ?? mobilityProfile}
+              onChange={handleMobilityProfileChange}
+              className="justify-center"
+            />
+            <DistanceUnitSelector
+              value={distanceUnit}
+              onChange={handleDistanceUnitChange}
               className="justify-center"
             />
           </CardContent>
@@ -9,6 +9,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { authClient } from "@/lib/auth-client";
+import { getStoredMobilityProfile } from "@/components/mobility-profile-selector";
 
 export const Route = createFileRoute("/rooms/$fromRoomId/")({
   component: RouteComponent,
@@ -19,8 +21,16 @@ function RouteComponent() {
 
   const navigate = Route.useNavigate();
 
+  const { data: session } = authClient.useSession();
+
+  // Signed-in users get their saved mobility profile from the server
   const roomData = useQuery(
-    trpc.room.getRoomById.queryOptions({ roomId: fromRoomId })
+    trpc.room.getRoomById.queryOptions({
+      roomId: fromRoomId,
+      mobilityProfile: session
+        ? undefined
+        : getStoredMobilityProfile() ?? undefined,
+    })
   );
 
   if (roomData.isLoading) {
@@ -46,6 +56,8 @@ function RouteComponent() {
 
   const room = roomData.data;
   const fromPaths = room?.fromPaths || [];
+  const chainedDestinations = room?.chainedDestinations || [];
+  const corridorDestinations = room?.corridorDestinations || [];
 
   return (
     <div className="bg-gray-50">
@@ -78,7 +90,9 @@ function RouteComponent() {
             Choose destination
           </h2>
 
-          {fromPaths.length === 0 ? (
+          {fromPaths.length === 0 &&
+          chainedDestinations.length === 0 &&
+          corridorDestinations.length === 0 ? (
             <Card>
               <CardContent className="flex items-center justify-center py-12">
                 <div className="text-center">
@@ -130,6 +144,66 @@ function RouteComponent() {
                   </Card>
                 </button>
               ))}
+              {chainedDestinations.map((destination) => (
+                <button
+                  key={destination.id}
+                  onClick={() => {
+                    navigate({
+                      href: `/rooms/${fromRoomId}/${destination.id}`,
+                    });
+                  }}
+                >
+                  <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                    <CardHeader>
+                      <div className="flex text-left justify-between">
+                        <CardTitle className="text-lg">
+                          <p>
+                            {destination.name} (Room{" "}
+                            {destination.number})
+                          </p>
+                        </CardTitle>
+                        <Badge variant="outline">Linked route</Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-sm text-gray-600">
+                        Combines existing paths through other rooms
+                      </div>
+                    </CardContent>
+                  </Card>
+                </button>
+              ))}
+              {corridorDestinations.map((destination) => (
+                <button
+                  key={destination.id}
+                  onClick={() => {
+                    navigate({
+                      href: `/rooms/${fromRoomId}/${destination.id}`,
+                    });
+                  }}
+                >
+                  <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                    <CardHeader>
+                      <div className="flex text-left justify-between">
+                        <CardTitle className="text-lg">
+                          <p>
+                            {destination.name} (Room{" "}
+                            {destination.number})
+                          </p>
+                        </CardTitle>
+                        <Badge variant="outline">Auto route</Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-sm text-gray-600">
+                        {destination.floorLevel === room?.floor.level
+                          ? "Routed through the corridor network"
+                          : `On floor ${destination.floorLevel}, via stairs or elevator`}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </button>
+              ))}
             </div>
           )}
         </div>
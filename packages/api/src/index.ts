@@ -1,7 +1,22 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import type { Context } from "./context";
+import { PathValidationError } from "./services/pathValidation";
 
-export const t = initTRPC.context<Context>().create();
+export const t = initTRPC.context<Context>().create({
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Structured geometry problems of a rejected path, if any
+        pathIssues:
+          error.cause instanceof PathValidationError
+            ? error.cause.issues
+            : null,
+      },
+    };
+  },
+});
 
 export const router = t.router;
 
@@ -1,7 +1,14 @@
 import { TRPCError } from "@trpc/server";
 import z from "zod";
 import prisma from "@sightmap/db";
-import { publicProcedure, router } from "../index";
+import { protectedProcedure, publicProcedure, router } from "../index";
+import { InstructionGenerator } from "@sightmap/common/prisma/enums";
+import {
+  areTurnThresholdsOrdered,
+  turnThresholdsFromSettings,
+} from "@sightmap/common/navigation";
+
+const turnDegreesSchema = z.number().int().min(0).max(180);
 
 export const buildingRouter = router({
   // Get all buildings with their floors
@@ -46,4 +53,63 @@ export const buildingRouter = router({
         });
       }
     }),
+
+  // Choose how instructions are written for the building's paths
+  updateInstructionGenerator: protectedProcedure
+    .input(
+      z.object({
+        id: z.cuid(),
+        instructionGenerator: z.enum(InstructionGenerator),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.building.update({
+          where: { id: input.id },
+          data: { instructionGenerator: input.instructionGenerator },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Building not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Set the angles at which turns become slight, sharp or turning around
+  updateTurnThresholds: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.cuid(),
+          straightTurnDegrees: turnDegreesSchema,
+          slightTurnDegrees: turnDegreesSchema,
+          sharpTurnDegrees: turnDegreesSchema,
+          turnAroundDegrees: turnDegreesSchema,
+        })
+        .refine(
+          (input) => areTurnThresholdsOrdered(turnThresholdsFromSettings(input)),
+          "Each turn angle must be larger than the one before it"
+        )
+    )
+    .mutation(async ({ input }) => {
+      const { id, ...thresholds } = input;
+      try {
+        return await prisma.building.update({
+          where: { id },
+          data: thresholds,
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Building not found",
+          });
+        }
+        throw error;
+      }
+    }),
 });
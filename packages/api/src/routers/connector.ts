@@ -0,0 +1,142 @@
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import prisma from "@sightmap/db";
+import { ConnectorType } from "@sightmap/common/prisma/enums";
+import {
+  publicProcedure,
+  protectedProcedure,
+  router,
+} from "../index";
+
+export const connectorRouter = router({
+  // Get the stairs, elevators and ramps that land on a floor
+  getByFloor: publicProcedure
+    .input(z.object({ floorId: z.cuid() }))
+    .query(async ({ input }) => {
+      return await prisma.verticalConnector.findMany({
+        where: {
+          OR: [
+            { fromFloorId: input.floorId },
+            { toFloorId: input.floorId },
+          ],
+        },
+        include: {
+          fromFloor: { select: { id: true, level: true } },
+          toFloor: { select: { id: true, level: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+    }),
+
+  // Link two floors of the same building
+  create: protectedProcedure
+    .input(
+      z.object({
+        type: z.enum(ConnectorType),
+        name: z.string().max(100).default(""),
+        fromFloorId: z.cuid(),
+        fromX: z.number(),
+        fromY: z.number(),
+        toFloorId: z.cuid(),
+        // Left out when the other landing is still to be placed on its
+        // own floor
+        toX: z.number().optional(),
+        toY: z.number().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      if (input.fromFloorId === input.toFloorId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A connector must link two different floors",
+        });
+      }
+
+      const floors = await prisma.floor.findMany({
+        where: { id: { in: [input.fromFloorId, input.toFloorId] } },
+      });
+      const [first, second] = floors;
+      if (!first || !second) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Floor not found",
+        });
+      }
+      if (first.buildingId !== second.buildingId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Connected floors must be in the same building",
+        });
+      }
+
+      const { toX, toY, ...connector } = input;
+      const toPlaced = toX !== undefined && toY !== undefined;
+      return await prisma.verticalConnector.create({
+        data: {
+          buildingId: first.buildingId,
+          ...connector,
+          toX: toPlaced ? toX : input.fromX,
+          toY: toPlaced ? toY : input.fromY,
+          toPlaced,
+        },
+      });
+    }),
+
+  // Move the connector's landing on one of its floors
+  moveLanding: protectedProcedure
+    .input(
+      z.object({
+        connectorId: z.cuid(),
+        floorId: z.cuid(),
+        x: z.number(),
+        y: z.number(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const connector = await prisma.verticalConnector.findUnique({
+        where: { id: input.connectorId },
+      });
+      if (!connector) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Connector not found",
+        });
+      }
+
+      if (input.floorId === connector.fromFloorId) {
+        return await prisma.verticalConnector.update({
+          where: { id: connector.id },
+          data: { fromX: input.x, fromY: input.y },
+        });
+      }
+      if (input.floorId === connector.toFloorId) {
+        return await prisma.verticalConnector.update({
+          where: { id: connector.id },
+          data: { toX: input.x, toY: input.y, toPlaced: true },
+        });
+      }
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The connector does not land on this floor",
+      });
+    }),
+
+  // Delete a connector
+  delete: protectedProcedure
+    .input(z.object({ connectorId: z.cuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.verticalConnector.delete({
+          where: { id: input.connectorId },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Connector not found",
+          });
+        }
+        throw error;
+      }
+    }),
+});
@@ -0,0 +1,244 @@
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import prisma from "@sightmap/db";
+import {
+  publicProcedure,
+  protectedProcedure,
+  router,
+} from "../index";
+
+export const corridorRouter = router({
+  // Get the corridor graph (nodes and edges) of a floor
+  getGraph: publicProcedure
+    .input(z.object({ floorId: z.cuid() }))
+    .query(async ({ input }) => {
+      const [nodes, edges] = await Promise.all([
+        prisma.corridorNode.findMany({
+          where: { floorId: input.floorId },
+          orderBy: { createdAt: "asc" },
+        }),
+        prisma.corridorEdge.findMany({
+          where: { floorId: input.floorId },
+          orderBy: { createdAt: "asc" },
+        }),
+      ]);
+      return { nodes, edges };
+    }),
+
+  // Create a corridor node, optionally linked to a room's door
+  createNode: protectedProcedure
+    .input(
+      z.object({
+        floorId: z.cuid(),
+        x: z.number(),
+        y: z.number(),
+        roomId: z.cuid().optional(),
+        // Connect the new node to an existing one in the same step
+        connectToNodeId: z.cuid().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      // Edges and door links never cross floors
+      if (input.roomId) {
+        const room = await prisma.room.findUnique({
+          where: { id: input.roomId },
+          select: { floorId: true },
+        });
+        if (!room) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Room not found",
+          });
+        }
+        if (room.floorId !== input.floorId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "The room must be on the node's floor",
+          });
+        }
+      }
+      if (input.connectToNodeId) {
+        const other = await prisma.corridorNode.findUnique({
+          where: { id: input.connectToNodeId },
+          select: { floorId: true },
+        });
+        if (!other) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Corridor node not found",
+          });
+        }
+        if (other.floorId !== input.floorId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Corridor nodes must be on the same floor",
+          });
+        }
+      }
+
+      return await prisma.$transaction(async (tx) => {
+        const node = await tx.corridorNode.create({
+          data: {
+            floorId: input.floorId,
+            x: input.x,
+            y: input.y,
+            roomId: input.roomId,
+          },
+        });
+
+        if (input.connectToNodeId) {
+          await tx.corridorEdge.create({
+            data: {
+              floorId: input.floorId,
+              fromNodeId: input.connectToNodeId,
+              toNodeId: node.id,
+            },
+          });
+        }
+
+        return node;
+      });
+    }),
+
+  // Move a corridor node
+  updateNode: protectedProcedure
+    .input(
+      z.object({
+        nodeId: z.cuid(),
+        x: z.number(),
+        y: z.number(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.corridorNode.update({
+          where: { id: input.nodeId },
+          data: { x: input.x, y: input.y },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Corridor node not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Delete a corridor node (its edges cascade)
+  deleteNode: protectedProcedure
+    .input(z.object({ nodeId: z.cuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.corridorNode.delete({
+          where: { id: input.nodeId },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Corridor node not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Connect two corridor nodes
+  createEdge: protectedProcedure
+    .input(
+      z.object({
+        fromNodeId: z.cuid(),
+        toNodeId: z.cuid(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      if (input.fromNodeId === input.toNodeId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A corridor edge needs two different nodes",
+        });
+      }
+
+      const nodes = await prisma.corridorNode.findMany({
+        where: { id: { in: [input.fromNodeId, input.toNodeId] } },
+      });
+      const [first, second] = nodes;
+      if (!first || !second) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Corridor node not found",
+        });
+      }
+      if (first.floorId !== second.floorId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Corridor nodes must be on the same floor",
+        });
+      }
+
+      // Edges are undirected, so reuse one drawn the other way round
+      const existing = await prisma.corridorEdge.findFirst({
+        where: {
+          OR: [
+            { fromNodeId: input.fromNodeId, toNodeId: input.toNodeId },
+            { fromNodeId: input.toNodeId, toNodeId: input.fromNodeId },
+          ],
+        },
+      });
+      if (existing) return existing;
+
+      return await prisma.corridorEdge.create({
+        data: {
+          floorId: first.floorId,
+          fromNodeId: input.fromNodeId,
+          toNodeId: input.toNodeId,
+        },
+      });
+    }),
+
+  // Mark whether a corridor edge passes through a heavy door
+  setEdgeHeavyDoor: protectedProcedure
+    .input(
+      z.object({
+        edgeId: z.cuid(),
+        heavyDoor: z.boolean(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.corridorEdge.update({
+          where: { id: input.edgeId },
+          data: { heavyDoor: input.heavyDoor },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Corridor edge not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Delete a corridor edge
+  deleteEdge: protectedProcedure
+    .input(z.object({ edgeId: z.cuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.corridorEdge.delete({
+          where: { id: input.edgeId },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Corridor edge not found",
+          });
+        }
+        throw error;
+      }
+    }),
+});
@@ -6,12 +6,97 @@ import {
   protectedProcedure,
   router,
 } from "../index";
+import type { PathAnchor, Room } from "@sightmap/common/prisma/client";
+import { createReversePath } from "../services/reversePath";
+import { assertValidPaths } from "../services/pathValidation";
+import { buildCoverageMatrix } from "@sightmap/common/coverage";
+import { pixelsPerMetreFromLine } from "@sightmap/common/scale";
+import {
+  isInstruction,
+  toInstructions,
+  type Instruction,
+} from "@sightmap/common/instructions";
+import {
+  publishedInstructionSet,
+  withVisibleInstructionSet,
+} from "../services/instructionSets";
+import { loadStaleInstructionCheck } from "../services/fingerprints";
+import {
+  ROOM_NAME_MAX_LENGTH,
+  ROOM_NAME_PATTERN,
+  ROOM_NAME_RULE,
+  ROOM_NUMBER_MAX_LENGTH,
+  ROOM_NUMBER_PATTERN,
+  ROOM_NUMBER_RULE,
+  toRoomName,
+  toRoomNumber,
+} from "@sightmap/common/roomText";
+
+// A single instruction as its list of tokens; see @sightmap/common/instructions
+export const instructionSchema = z.custom<Instruction>(
+  isInstruction,
+  "Invalid instruction",
+);
+
+// Room text goes into instruction prompts, so it keeps to what a name
+// needs; see @sightmap/common/roomText
+const roomNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(ROOM_NAME_MAX_LENGTH)
+  .regex(ROOM_NAME_PATTERN, ROOM_NAME_RULE);
+const roomNumberSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(ROOM_NUMBER_MAX_LENGTH)
+  .regex(ROOM_NUMBER_PATTERN, ROOM_NUMBER_RULE);
+
+// Floors saved in one go are usually imported from elsewhere, so their
+// room text is cleaned to the rules rather than rejected
+const importedRoomNameSchema = z
+  .string()
+  .transform(toRoomName)
+  .pipe(roomNameSchema);
+const importedRoomNumberSchema = z
+  .string()
+  .transform(toRoomNumber)
+  .pipe(roomNumberSchema);
+
+// What saveFloor writes for a room
+type RoomLayout = Pick<
+  Room,
+  "name" | "number" | "x" | "y" | "width" | "height" | "doorX" | "doorY"
+> & { aliases: string[] };
+
+// Rooms saved with the floor are matched to existing ones by these
+const roomKey = (room: Pick<Room, "name" | "number">) =>
+  JSON.stringify([room.name, room.number]);
+
+const isRoomChanged = (existing: RoomLayout, incoming: RoomLayout) =>
+  (["x", "y", "width", "height", "doorX", "doorY"] as const).some(
+    (field) => existing[field] !== incoming[field],
+  ) || existing.aliases.join("\n") !== incoming.aliases.join("\n");
+
+// Both lists sorted by index
+const areAnchorsEqual = (
+  existing: Pick<PathAnchor, "index" | "xCoords" | "yCoords">[],
+  incoming: Pick<PathAnchor, "index" | "xCoords" | "yCoords">[],
+) =>
+  existing.length === incoming.length &&
+  existing.every(
+    (anchor, i) =>
+      anchor.index === incoming[i]!.index &&
+      anchor.xCoords === incoming[i]!.xCoords &&
+      anchor.yCoords === incoming[i]!.yCoords,
+  );
 
 export const floorRouter = router({
   // Get a single floor by id
   getById: publicProcedure
     .input(z.object({ id: z.cuid() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const floor = await prisma.floor.findUnique({
         where: { id: input.id },
         include: {
@@ -21,14 +106,14 @@ export const floorRouter = router({
               fromPaths: {
                 include: {
                   anchors: true,
-                  instructionSet: true,
+                  instructionSet: publishedInstructionSet,
                   toRoom: true,
                 },
               },
               toPaths: {
                 include: {
                   anchors: true,
-                  instructionSet: true,
+                  instructionSet: publishedInstructionSet,
                   fromRoom: true,
                 },
               },
@@ -45,7 +130,15 @@ export const floorRouter = router({
           message: "Floor not found",
         });
       }
-      return floor;
+      const readSet = withVisibleInstructionSet(!!ctx.session);
+      return {
+        ...floor,
+        rooms: floor.rooms.map((room) => ({
+          ...room,
+          fromPaths: room.fromPaths.map(readSet),
+          toPaths: room.toPaths.map(readSet),
+        })),
+      };
     }),
 
   // Create a floor
@@ -90,8 +183,8 @@ export const floorRouter = router({
     .input(
       z.object({
         floorId: z.cuid(),
-        name: z.string(),
-        number: z.string(),
+        name: roomNameSchema,
+        number: roomNumberSchema,
         x: z.number(),
         y: z.number(),
         width: z.number(),
@@ -191,7 +284,7 @@ export const floorRouter = router({
     .input(
       z.object({
         roomId: z.cuid(),
-        name: z.string(),
+        name: roomNameSchema,
       }),
     )
     .mutation(async ({ input }) => {
@@ -225,7 +318,7 @@ export const floorRouter = router({
     .input(
       z.object({
         roomId: z.cuid(),
-        number: z.string(),
+        number: roomNumberSchema,
       }),
     )
     .mutation(async ({ input }) => {
@@ -254,6 +347,33 @@ export const floorRouter = router({
       }
     }),
 
+  // Replace the other names a room goes by
+  updateRoomAliases: protectedProcedure
+    .input(
+      z.object({
+        roomId: z.cuid(),
+        aliases: z.array(roomNameSchema).max(20),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.room.update({
+          where: { id: input.roomId },
+          data: {
+            aliases: [...new Set(input.aliases)],
+          },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Room not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
   // Create a path between two rooms
   createPath: protectedProcedure
     .input(
@@ -266,9 +386,29 @@ export const floorRouter = router({
             y: z.number(),
           }),
         ),
+        // Also create the mirrored path from toRoom back to fromRoom
+        bidirectional: z.boolean().default(false),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const fromRoom = await prisma.room.findUnique({
+        where: { id: input.fromRoomId },
+        include: { floor: { include: { rooms: true } } },
+      });
+      const toRoom = fromRoom?.floor.rooms.find(
+        (room) => room.id === input.toRoomId,
+      );
+      if (!fromRoom || !toRoom) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Both rooms must exist on the same floor",
+        });
+      }
+      assertValidPaths(
+        [{ anchors: input.anchors, fromRoom, toRoom }],
+        fromRoom.floor.rooms,
+      );
+
       return await prisma.$transaction(async (tx) => {
         // Create the path
         const path = await tx.path.create({
@@ -291,17 +431,45 @@ export const floorRouter = router({
           });
         }
 
-        return path;
+        const reversePath = input.bidirectional
+          ? await createReversePath(tx, path.id, ctx.session.user.id)
+          : null;
+
+        return { ...path, reversePath };
       });
     }),
 
+  // Create the reverse of an existing path
+  createReversePath: protectedProcedure
+    .input(z.object({ pathId: z.cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return await prisma.$transaction((tx) =>
+        createReversePath(tx, input.pathId, ctx.session.user.id),
+      );
+    }),
+
   // Delete a path
   deletePath: protectedProcedure
     .input(z.object({ pathId: z.cuid() }))
     .mutation(async ({ input }) => {
       try {
-        return await prisma.path.delete({
-          where: { id: input.pathId },
+        return await prisma.$transaction(async (tx) => {
+          const path = await tx.path.delete({
+            where: { id: input.pathId },
+          });
+
+          // The remaining direction is no longer part of a pair
+          if (path.bidirectional) {
+            await tx.path.updateMany({
+              where: {
+                fromRoomId: path.toRoomId,
+                toRoomId: path.fromRoomId,
+              },
+              data: { bidirectional: false },
+            });
+          }
+
+          return path;
         });
       } catch (error: any) {
         if (error.code === "P2025") {
@@ -316,7 +484,7 @@ export const floorRouter = router({
   // Get all paths and rooms in a floor with data for DrawingCanvas
   getFloorData: publicProcedure
     .input(z.object({ floorId: z.cuid() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const floor = await prisma.floor.findUnique({
         where: { id: input.floorId },
         include: {
@@ -328,7 +496,7 @@ export const floorRouter = router({
                   anchors: {
                     orderBy: { index: "asc" },
                   },
-                  instructionSet: true,
+                  instructionSet: publishedInstructionSet,
                   toRoom: true,
                   fromRoom: true,
                 },
@@ -338,14 +506,22 @@ export const floorRouter = router({
                   anchors: {
                     orderBy: { index: "asc" },
                   },
-                  instructionSet: true,
+                  instructionSet: publishedInstructionSet,
                   fromRoom: true,
                   toRoom: true,
                 },
               },
             },
           },
-          building: true,
+          building: {
+            include: {
+              // Other floors, for linking stairs and elevators
+              floors: {
+                select: { id: true, level: true },
+                orderBy: { level: "asc" },
+              },
+            },
+          },
         },
       });
 
@@ -356,7 +532,119 @@ export const floorRouter = router({
         });
       }
 
-      return floor;
+      // Flag instructions whose path, nearby rooms or scale changed
+      // since they were generated
+      const isStale = await loadStaleInstructionCheck(input.floorId);
+      // Drafts are only shown to signed-in editors
+      const readSet = withVisibleInstructionSet(!!ctx.session);
+
+      return {
+        ...floor,
+        rooms: floor.rooms.map((room) => ({
+          ...room,
+          fromPaths: room.fromPaths.map((path) => ({
+            ...readSet(path),
+            instructionsStale: isStale(path),
+          })),
+          toPaths: room.toPaths.map((path) => ({
+            ...readSet(path),
+            instructionsStale: isStale(path),
+          })),
+        })),
+      };
+    }),
+
+  // Set the floor's real-world scale from a line drawn between two points
+  // a known distance apart
+  calibrateScale: protectedProcedure
+    .input(
+      z.object({
+        floorId: z.cuid(),
+        from: z.object({ x: z.number(), y: z.number() }),
+        to: z.object({ x: z.number(), y: z.number() }),
+        metres: z.number().positive(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      let pixelsPerMetre: number;
+      try {
+        pixelsPerMetre = pixelsPerMetreFromLine(
+          input.from,
+          input.to,
+          input.metres,
+        );
+      } catch (error: any) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error.message,
+        });
+      }
+
+      try {
+        return await prisma.floor.update({
+          where: { id: input.floorId },
+          data: { pixelsPerMetre },
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Floor not found",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Path and instruction coverage for every ordered room pair of a floor.
+  // Editors only: it tells drafts apart from published instructions.
+  getCoverage: protectedProcedure
+    .input(z.object({ floorId: z.cuid() }))
+    .query(async ({ input }) => {
+      const [rooms, paths, isStale] = await Promise.all([
+        prisma.room.findMany({
+          where: { floorId: input.floorId },
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, number: true, updatedAt: true },
+        }),
+        prisma.path.findMany({
+          where: { fromRoom: { floorId: input.floorId } },
+          select: {
+            id: true,
+            fromRoomId: true,
+            toRoomId: true,
+            anchors: { orderBy: { index: "asc" } },
+            fromRoom: { select: { name: true, number: true } },
+            toRoom: { select: { name: true, number: true } },
+            instructionSet: {
+              select: {
+                descriptiveInstructions: true,
+                fingerprint: true,
+                updatedAt: true,
+              },
+            },
+          },
+        }),
+        loadStaleInstructionCheck(input.floorId),
+      ]);
+
+      return {
+        rooms,
+        cells: buildCoverageMatrix(
+          rooms,
+          paths.map((path) => ({
+            id: path.id,
+            fromRoomId: path.fromRoomId,
+            toRoomId: path.toRoomId,
+            instructionSet: path.instructionSet && {
+              descriptiveInstructions: toInstructions(
+                path.instructionSet.descriptiveInstructions,
+              ),
+            },
+            instructionsStale: isStale(path),
+          })),
+        ),
+      };
     }),
 
   // Save floor, rooms, and paths at once
@@ -367,20 +655,24 @@ export const floorRouter = router({
         level: z.number().optional(),
         rooms: z.array(
           z.object({
-            name: z.string(),
-            number: z.string(),
+            name: importedRoomNameSchema,
+            number: importedRoomNumberSchema,
             x: z.number(),
             y: z.number(),
             width: z.number(),
             height: z.number(),
             doorX: z.number(),
             doorY: z.number(),
+            aliases: z.array(importedRoomNameSchema).default([]),
           }),
         ),
+        // Strict, so a caller still sending instructions is told they are
+        // not saved here instead of losing them without an error
         paths: z.array(
-          z.object({
+          z.strictObject({
             fromRoomIndex: z.number(), // Index in the rooms array instead of ID
             toRoomIndex: z.number(), // Index in the rooms array instead of ID
+            bidirectional: z.boolean().default(false),
             anchors: z.array(
               z.object({
                 index: z.number(),
@@ -388,17 +680,32 @@ export const floorRouter = router({
                 yCoords: z.number(),
               }),
             ),
-            instructionSet: z
-              .object({
-                descriptiveInstructions: z.array(z.string()),
-                conciseInstructions: z.array(z.string()),
-              })
-              .optional(),
           }),
         ),
       }),
     )
     .mutation(async ({ input }) => {
+      // Check every path against the rooms being saved before touching data
+      const validatedPaths = input.paths.flatMap((pathData, pathIndex) => {
+        const fromRoom = input.rooms[pathData.fromRoomIndex];
+        const toRoom = input.rooms[pathData.toRoomIndex];
+        if (!fromRoom || !toRoom) return [];
+        return [
+          {
+            pathIndex,
+            anchors: [...pathData.anchors]
+              .sort((a, b) => a.index - b.index)
+              .map((anchor) => ({ x: anchor.xCoords, y: anchor.yCoords })),
+            fromRoom: { id: String(pathData.fromRoomIndex), ...fromRoom },
+            toRoom: { id: String(pathData.toRoomIndex), ...toRoom },
+          },
+        ];
+      });
+      assertValidPaths(
+        validatedPaths,
+        input.rooms.map((room, index) => ({ id: String(index), ...room })),
+      );
+
       return await prisma.$transaction(async (tx) => {
         // Update floor if level provided
         if (input.level !== undefined) {
@@ -408,44 +715,68 @@ export const floorRouter = router({
           });
         }
 
-        // Delete all existing rooms for this floor
-        await tx.room.deleteMany({
+        // Incoming rooms take the place of existing ones with the same name
+        // and number, so paths between rooms that are still there keep
+        // their instructions and history
+        const existingRooms = await tx.room.findMany({
           where: { floorId: input.floorId },
+          include: {
+            fromPaths: {
+              include: { anchors: { orderBy: { index: "asc" } } },
+            },
+          },
         });
+        const unmatchedRooms = new Map<string, typeof existingRooms>();
+        for (const room of existingRooms) {
+          const key = roomKey(room);
+          unmatchedRooms.set(key, [...(unmatchedRooms.get(key) ?? []), room]);
+        }
 
-        // Delete all existing paths for this floor (this will cascade to anchors and instruction sets)
-        await tx.path.deleteMany({
+        const savedRooms = [];
+        for (const roomData of input.rooms) {
+          const existing = unmatchedRooms.get(roomKey(roomData))?.shift();
+          if (!existing) {
+            savedRooms.push(
+              await tx.room.create({
+                data: { ...roomData, floorId: input.floorId },
+              }),
+            );
+          } else if (isRoomChanged(existing, roomData)) {
+            savedRooms.push(
+              await tx.room.update({
+                where: { id: existing.id },
+                data: roomData,
+              }),
+            );
+          } else {
+            // Left alone, so its edit time still dates instructions
+            savedRooms.push(existing);
+          }
+        }
+
+        // Rooms no longer on the floor go, and their paths with them
+        await tx.room.deleteMany({
           where: {
-            fromRoom: {
-              floorId: input.floorId,
+            id: {
+              in: [...unmatchedRooms.values()].flat().map((room) => room.id),
             },
           },
         });
 
-        // Create new rooms
-        const createdRooms = [];
-        for (const roomData of input.rooms) {
-          const newRoom = await tx.room.create({
-            data: {
-              name: roomData.name,
-              number: roomData.number,
-              x: roomData.x,
-              y: roomData.y,
-              width: roomData.width,
-              height: roomData.height,
-              doorX: roomData.doorX,
-              doorY: roomData.doorY,
-              floorId: input.floorId,
-            },
-          });
-          createdRooms.push(newRoom);
-        }
+        const existingPaths = new Map(
+          existingRooms
+            .flatMap((room) => room.fromPaths)
+            .map((path) => [`${path.fromRoomId}|${path.toRoomId}`, path]),
+        );
+        const savedPathIds = new Set<string>();
 
-        // Create new paths with anchors and instruction sets
+        // Keep paths whose rooms and anchors are unchanged; create the
+        // rest with their anchors. Instructions for new paths are written
+        // afterwards by generation or the instruction editor.
         for (const pathData of input.paths) {
           // Use room indices to get the actual room IDs
-          const fromRoom = createdRooms[pathData.fromRoomIndex];
-          const toRoom = createdRooms[pathData.toRoomIndex];
+          const fromRoom = savedRooms[pathData.fromRoomIndex];
+          const toRoom = savedRooms[pathData.toRoomIndex];
 
           if (!fromRoom || !toRoom) {
             console.warn(
@@ -454,15 +785,36 @@ export const floorRouter = router({
             continue;
           }
 
+          const anchors = [...pathData.anchors].sort(
+            (a, b) => a.index - b.index,
+          );
+          const existing = existingPaths.get(`${fromRoom.id}|${toRoom.id}`);
+          if (
+            existing &&
+            !savedPathIds.has(existing.id) &&
+            areAnchorsEqual(existing.anchors, anchors)
+          ) {
+            if (existing.bidirectional !== pathData.bidirectional) {
+              await tx.path.update({
+                where: { id: existing.id },
+                data: { bidirectional: pathData.bidirectional },
+              });
+            }
+            savedPathIds.add(existing.id);
+            continue;
+          }
+
           const newPath = await tx.path.create({
             data: {
               fromRoomId: fromRoom.id,
               toRoomId: toRoom.id,
+              bidirectional: pathData.bidirectional,
             },
           });
+          savedPathIds.add(newPath.id);
 
           // Create anchors for this path
-          for (const anchor of pathData.anchors) {
+          for (const anchor of anchors) {
             await tx.pathAnchor.create({
               data: {
                 index: anchor.index,
@@ -472,21 +824,16 @@ export const floorRouter = router({
               },
             });
           }
-
-          // Create instruction set if provided
-          if (pathData.instructionSet) {
-            await tx.instructionSet.create({
-              data: {
-                pathId: newPath.id,
-                descriptiveInstructions:
-                  pathData.instructionSet.descriptiveInstructions,
-                conciseInstructions:
-                  pathData.instructionSet.conciseInstructions,
-              },
-            });
-          }
         }
 
+        // Paths left out or redrawn go, with their instructions
+        await tx.path.deleteMany({
+          where: {
+            fromRoom: { floorId: input.floorId },
+            id: { notIn: [...savedPathIds] },
+          },
+        });
+
         // Return updated floor data
         return await tx.floor.findUnique({
           where: { id: input.floorId },
@@ -521,28 +868,4 @@ export const floorRouter = router({
         });
       });
     }),
-
-  // Save generated instructions for a path
-  saveInstructions: protectedProcedure
-    .input(
-      z.object({
-        pathId: z.cuid(),
-        descriptiveInstructions: z.array(z.string()),
-        conciseInstructions: z.array(z.string()),
-      }),
-    )
-    .mutation(async ({ input }) => {
-      return await prisma.instructionSet.upsert({
-        where: { pathId: input.pathId },
-        update: {
-          descriptiveInstructions: input.descriptiveInstructions,
-          conciseInstructions: input.conciseInstructions,
-        },
-        create: {
-          pathId: input.pathId,
-          descriptiveInstructions: input.descriptiveInstructions,
-          conciseInstructions: input.conciseInstructions,
-        },
-      });
-    }),
 });
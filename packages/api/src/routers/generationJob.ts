@@ -0,0 +1,170 @@
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import prisma from "@sightmap/db";
+import { protectedProcedure, publicProcedure, router } from "../index";
+import { InstructionGenerator } from "@sightmap/common/prisma/enums";
+import type { Prisma } from "@sightmap/common/prisma/client";
+import {
+  DEFAULT_JOB_CONCURRENCY,
+  MAX_JOB_CONCURRENCY,
+  countTasks,
+} from "@sightmap/common/generationJobs";
+
+const jobInclude = {
+  tasks: {
+    select: {
+      pathId: true,
+      status: true,
+      attempts: true,
+      lastError: true,
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.GenerationJobInclude;
+
+type JobWithTasks = Prisma.GenerationJobGetPayload<{
+  include: typeof jobInclude;
+}>;
+
+// A job with its per-path state and how many paths are in each state
+function readJob(job: JobWithTasks) {
+  return { ...job, counts: countTasks(job.tasks) };
+}
+
+export const generationJobRouter = router({
+  // Queue instruction generation for a floor or a whole building. Paths
+  // already waiting in another job are left to that job.
+  enqueue: protectedProcedure
+    .input(
+      z
+        .object({
+          floorId: z.cuid().optional(),
+          buildingId: z.cuid().optional(),
+          // Only these paths of the floor or building
+          pathIds: z.array(z.cuid()).optional(),
+          // Skip paths that already have descriptive instructions
+          missingOnly: z.boolean().default(false),
+          generator: z.enum(InstructionGenerator).optional(),
+          concurrency: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_JOB_CONCURRENCY)
+            .default(DEFAULT_JOB_CONCURRENCY),
+        })
+        .refine((input) => input.floorId || input.buildingId, {
+          message: "A floor or a building is required",
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const buildingId = input.floorId
+        ? (
+            await prisma.floor.findUnique({
+              where: { id: input.floorId },
+              select: { buildingId: true },
+            })
+          )?.buildingId
+        : input.buildingId;
+      if (!buildingId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Floor not found",
+        });
+      }
+
+      const paths = await prisma.path.findMany({
+        where: {
+          fromRoom: {
+            floor: input.floorId ? { id: input.floorId } : { buildingId },
+          },
+          ...(input.pathIds && { id: { in: input.pathIds } }),
+          ...(input.missingOnly && {
+            OR: [
+              { instructionSet: null },
+              { instructionSet: { descriptiveInstructions: { equals: [] } } },
+            ],
+          }),
+          generationTasks: {
+            none: { status: { in: ["PENDING", "RUNNING"] } },
+          },
+        },
+        select: { id: true },
+      });
+      if (paths.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "No paths need instructions generated",
+        });
+      }
+
+      const job = await prisma.generationJob.create({
+        data: {
+          buildingId,
+          floorId: input.floorId,
+          generator: input.generator,
+          concurrency: input.concurrency,
+          requestedById: ctx.session.user.id,
+          tasks: {
+            create: paths.map((path) => ({ pathId: path.id })),
+          },
+        },
+        include: jobInclude,
+      });
+      return readJob(job);
+    }),
+
+  // Stop a job. Paths being generated right now still finish.
+  cancel: protectedProcedure
+    .input(z.object({ id: z.cuid() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await prisma.$transaction(async (tx) => {
+          await tx.generationTask.updateMany({
+            where: { jobId: input.id, status: "PENDING" },
+            data: { status: "CANCELLED" },
+          });
+          const job = await tx.generationJob.update({
+            where: { id: input.id, status: { in: ["QUEUED", "RUNNING"] } },
+            data: { status: "CANCELLED", finishedAt: new Date() },
+            include: jobInclude,
+          });
+          return readJob(job);
+        });
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "No running job with this id",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Most recent job covering a floor, whether for the floor itself or its
+  // whole building, so a page can attach to a job started elsewhere
+  getLatest: publicProcedure
+    .input(z.object({ floorId: z.cuid() }))
+    .query(async ({ input }) => {
+      const floor = await prisma.floor.findUnique({
+        where: { id: input.floorId },
+        select: { buildingId: true },
+      });
+      if (!floor) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Floor not found",
+        });
+      }
+
+      const job = await prisma.generationJob.findFirst({
+        where: {
+          buildingId: floor.buildingId,
+          OR: [{ floorId: input.floorId }, { floorId: null }],
+        },
+        orderBy: { createdAt: "desc" },
+        include: jobInclude,
+      });
+      return job && readJob(job);
+    }),
+});
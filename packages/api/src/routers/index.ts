@@ -5,6 +5,11 @@ import { floorRouter } from "./floor";
 import { userSettingsRouter } from "./userSettings";
 import { roomRouter } from "./room";
 import { floorImageRouter } from "./floorImage";
+import { corridorRouter } from "./corridor";
+import { connectorRouter } from "./connector";
+import { generationJobRouter } from "./generationJob";
+import { instructionHistoryRouter } from "./instructionHistory";
+import { instructionSetRouter } from "./instructionSet";
 import type {
   inferRouterInputs,
   inferRouterOutputs,
@@ -17,6 +22,11 @@ export const appRouter = router({
   userSettings: userSettingsRouter,
   room: roomRouter,
   floorImage: floorImageRouter,
+  corridor: corridorRouter,
+  connector: connectorRouter,
+  generationJob: generationJobRouter,
+  instructionHistory: instructionHistoryRouter,
+  instructionSet: instructionSetRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,74 @@
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import prisma from "@sightmap/db";
+import { protectedProcedure, router } from "../index";
+import { toInstructions } from "@sightmap/common/instructions";
+import {
+  retryOnVersionConflict,
+  saveInstructionVersion,
+} from "../services/instructionSets";
+
+export const instructionHistoryRouter = router({
+  // Every saved version of a path's instructions, newest first. Drafts
+  // are among them, so only editors see the history.
+  list: protectedProcedure
+    .input(z.object({ pathId: z.cuid() }))
+    .query(async ({ input }) => {
+      const versions = await prisma.instructionVersion.findMany({
+        where: { pathId: input.pathId },
+        orderBy: { version: "desc" },
+        include: { author: { select: { name: true } } },
+      });
+      return versions.map((version) => ({
+        ...version,
+        descriptiveInstructions: toInstructions(
+          version.descriptiveInstructions
+        ),
+        conciseInstructions: toInstructions(version.conciseInstructions),
+      }));
+    }),
+
+  // Make an earlier version current again. It is saved as a new version,
+  // so the one it replaces stays in the history.
+  restore: protectedProcedure
+    .input(z.object({ pathId: z.cuid(), version: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await retryOnVersionConflict(() =>
+          prisma.$transaction(async (tx) => {
+            const restored = await tx.instructionVersion.findUniqueOrThrow({
+              where: {
+                pathId_version: {
+                  pathId: input.pathId,
+                  version: input.version,
+                },
+              },
+            });
+            const version = await saveInstructionVersion(tx, input.pathId, {
+              descriptiveInstructions: toInstructions(
+                restored.descriptiveInstructions
+              ),
+              conciseInstructions: toInstructions(
+                restored.conciseInstructions
+              ),
+              source: restored.source,
+              provider: restored.provider,
+              model: restored.model,
+              fingerprint: restored.fingerprint,
+              authorId: ctx.session.user.id,
+              restoredFrom: restored.version,
+            });
+            return { version };
+          })
+        );
+      } catch (error: any) {
+        if (error.code === "P2025") {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Instruction version not found",
+          });
+        }
+        throw error;
+      }
+    }),
+});
@@ -0,0 +1,113 @@
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import prisma from "@sightmap/db";
+import { protectedProcedure, router } from "../index";
+import {
+  retryOnVersionConflict,
+  saveInstructionVersion,
+} from "../services/instructionSets";
+import { instructionSchema } from "./floor";
+
+// The path's current version, as the editor saw it
+const currentVersionSchema = z.object({
+  pathId: z.cuid(),
+  version: z.number().int(),
+});
+
+export const instructionSetRouter = router({
+  // Save an editor's changes as a new draft version. baseVersion is the
+  // version the edits started from; saving fails when another save came
+  // in since, rather than overwriting it.
+  saveEdits: protectedProcedure
+    .input(
+      z.object({
+        pathId: z.cuid(),
+        baseVersion: z.number().int().nullable(),
+        descriptiveInstructions: z.array(instructionSchema),
+        conciseInstructions: z.array(instructionSchema),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await retryOnVersionConflict(() =>
+        prisma.$transaction(async (tx) => {
+          const current = await tx.instructionSet.findUnique({
+            where: { pathId: input.pathId },
+            select: { version: true, fingerprint: true },
+          });
+          if ((current?.version ?? null) !== input.baseVersion) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message:
+                "These instructions were changed since you started editing",
+            });
+          }
+          const version = await saveInstructionVersion(tx, input.pathId, {
+            descriptiveInstructions: input.descriptiveInstructions,
+            conciseInstructions: input.conciseInstructions,
+            source: "MANUAL",
+            provider: null,
+            model: null,
+            // Edits describe the same path the edited version was made from
+            fingerprint: current?.fingerprint ?? null,
+            authorId: ctx.session.user.id,
+          });
+          return { version };
+        })
+      );
+    }),
+
+  // Mark the current draft as checked
+  review: protectedProcedure
+    .input(currentVersionSchema)
+    .mutation(async ({ input }) => {
+      const { count } = await prisma.instructionSet.updateMany({
+        where: {
+          pathId: input.pathId,
+          version: input.version,
+          status: "DRAFT",
+        },
+        data: { status: "REVIEWED" },
+      });
+      if (count === 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Only the current draft can be marked as reviewed",
+        });
+      }
+      return { status: "REVIEWED" as const };
+    }),
+
+  // Show the current reviewed version on the public pages
+  publish: protectedProcedure
+    .input(currentVersionSchema)
+    .mutation(async ({ input }) => {
+      return await prisma.$transaction(async (tx) => {
+        const version = await tx.instructionVersion.findUnique({
+          where: {
+            pathId_version: {
+              pathId: input.pathId,
+              version: input.version,
+            },
+          },
+          select: { id: true },
+        });
+        const { count } = version
+          ? await tx.instructionSet.updateMany({
+              where: {
+                pathId: input.pathId,
+                version: input.version,
+                status: "REVIEWED",
+              },
+              data: { status: "PUBLISHED", publishedVersionId: version.id },
+            })
+          : { count: 0 };
+        if (count === 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Only the current version can be published, once reviewed",
+          });
+        }
+        return { status: "PUBLISHED" as const };
+      });
+    }),
+});
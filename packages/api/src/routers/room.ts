@@ -2,12 +2,67 @@ import { TRPCError } from "@trpc/server";
 import z from "zod";
 import prisma from "@sightmap/db";
 import { publicProcedure, router } from "../index";
+import { MobilityProfile } from "@sightmap/common/prisma/enums";
+import { DEFAULT_MOBILITY_PROFILE } from "@sightmap/common/mobility";
+import { getPathLength } from "@sightmap/common/pathChain";
+import {
+  pixelsToMetres,
+  resolvePixelsPerMetre,
+} from "@sightmap/common/scale";
+import type { AnchorPoint } from "@sightmap/common/navigation";
+import type { Context } from "../context";
+import {
+  buildCorridorPath,
+  findCorridorDestinations,
+} from "../services/corridorRouting";
+import {
+  buildChainedPath,
+  findChainedDestinations,
+} from "../services/pathChaining";
+import {
+  publishedInstructionSet,
+  withPublishedInstructionSet,
+} from "../services/instructionSets";
+
+// The requested profile, else the signed-in user's, else the default
+async function resolveMobilityProfile(
+  ctx: Context,
+  requested?: MobilityProfile,
+) {
+  if (requested) return requested;
+  if (!ctx.session) return DEFAULT_MOBILITY_PROFILE;
+
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ctx.session.user.id },
+  });
+  return settings?.mobilityProfile ?? DEFAULT_MOBILITY_PROFILE;
+}
+
+// Walking length of a route on one floor, in metres at the floor's scale
+async function getRouteLengthMetres(
+  floorId: string,
+  anchors: AnchorPoint[],
+) {
+  const floor = await prisma.floor.findUnique({
+    where: { id: floorId },
+    select: { pixelsPerMetre: true },
+  });
+  return pixelsToMetres(
+    getPathLength(anchors),
+    resolvePixelsPerMetre(floor?.pixelsPerMetre),
+  );
+}
 
 export const roomRouter = router({
   // Get a room by ID with its fromPaths
   getRoomById: publicProcedure
-    .input(z.object({ roomId: z.cuid() }))
-    .query(async ({ input }) => {
+    .input(
+      z.object({
+        roomId: z.cuid(),
+        mobilityProfile: z.enum(MobilityProfile).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
       const room = await prisma.room.findUnique({
         where: { id: input.roomId },
         include: {
@@ -16,7 +71,7 @@ export const roomRouter = router({
               anchors: {
                 orderBy: { index: "asc" },
               },
-              instructionSet: true,
+              instructionSet: publishedInstructionSet,
               toRoom: true,
             },
           },
@@ -35,13 +90,46 @@ export const roomRouter = router({
         });
       }
 
-      return room;
+      // Destinations reached by chaining drawn paths through other rooms
+      const chainedDestinations = await findChainedDestinations(room);
+
+      // Destinations without drawn paths that corridors and connectors reach
+      const drawnDestinationIds = new Set([
+        ...room.fromPaths.map((path) => path.toRoomId),
+        ...chainedDestinations.map((destination) => destination.id),
+      ]);
+      const mobilityProfile = await resolveMobilityProfile(
+        ctx,
+        input.mobilityProfile,
+      );
+      const corridorDestinations = (
+        await findCorridorDestinations(room, mobilityProfile)
+      ).filter((destination) => !drawnDestinationIds.has(destination.id));
+
+      return {
+        ...room,
+        fromPaths: room.fromPaths.map(withPublishedInstructionSet),
+        chainedDestinations,
+        corridorDestinations,
+        mobilityProfile,
+      };
     }),
 
   // Get path instructions between two rooms
   getPathInstructions: publicProcedure
-    .input(z.object({ fromRoomId: z.cuid(), toRoomId: z.cuid() }))
-    .query(async ({ input }) => {
+    .input(
+      z.object({
+        fromRoomId: z.cuid(),
+        toRoomId: z.cuid(),
+        mobilityProfile: z.enum(MobilityProfile).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const mobilityProfile = await resolveMobilityProfile(
+        ctx,
+        input.mobilityProfile,
+      );
+
       const path = await prisma.path.findFirst({
         where: {
           fromRoomId: input.fromRoomId,
@@ -51,19 +139,68 @@ export const roomRouter = router({
           anchors: {
             orderBy: { index: "asc" },
           },
-          instructionSet: true,
+          instructionSet: publishedInstructionSet,
           fromRoom: true,
           toRoom: true,
         },
       });
 
-      if (!path) {
+      if (path) {
+        return {
+          ...withPublishedInstructionSet(path),
+          source: "drawn" as const,
+          // Drawn paths are the same for every mobility profile
+          mobilityProfile: null,
+          lengthMetres: await getRouteLengthMetres(
+            path.fromRoom.floorId,
+            path.anchors,
+          ),
+        };
+      }
+
+      const [fromRoom, toRoom] = await Promise.all([
+        prisma.room.findUnique({ where: { id: input.fromRoomId } }),
+        prisma.room.findUnique({ where: { id: input.toRoomId } }),
+      ]);
+
+      // No direct path: chain drawn paths through intermediate rooms
+      const chainedPath =
+        fromRoom && toRoom
+          ? await buildChainedPath(fromRoom, toRoom)
+          : null;
+      if (chainedPath) {
+        return {
+          ...chainedPath,
+          source: "chained" as const,
+          mobilityProfile: null,
+          // Chained paths never leave the floor
+          lengthMetres: await getRouteLengthMetres(
+            chainedPath.fromRoom.floorId,
+            chainedPath.anchors,
+          ),
+        };
+      }
+
+      // Otherwise route through the corridor graphs and connectors
+      const corridorPath =
+        fromRoom && toRoom
+          ? await buildCorridorPath(fromRoom, toRoom, mobilityProfile)
+          : null;
+
+      if (!corridorPath) {
         throw new TRPCError({
           code: "NOT_FOUND",
-          message: "Path not found between these rooms",
+          message:
+            mobilityProfile === "SHORTEST"
+              ? "Path not found between these rooms"
+              : "No route between these rooms suits this mobility profile",
         });
       }
 
-      return path;
+      return {
+        ...corridorPath,
+        source: "corridor" as const,
+        mobilityProfile,
+      };
     }),
 });
@@ -2,10 +2,15 @@ import { TRPCError } from "@trpc/server";
 import z from "zod";
 import prisma from "@sightmap/db";
 import { protectedProcedure, router } from "../index";
-import { StepSize } from "@sightmap/common/prisma/enums";
+import {
+  DistanceUnit,
+  MobilityProfile,
+  StepSize,
+} from "@sightmap/common/prisma/enums";
+import { strideFromCalibration } from "@sightmap/common/stride";
 
 export const userSettingsRouter = router({
-  // Get user settings (step size)
+  // Get user settings (step size, stride, mobility profile, distance unit)
   get: protectedProcedure.query(async ({ ctx }) => {
     const settings = await prisma.userSettings.findUnique({
       where: { userId: ctx.session.user.id },
@@ -39,4 +44,101 @@ export const userSettingsRouter = router({
         });
       }
     }),
+
+  // Store the stride worked out from walking a known distance
+  calibrateStride: protectedProcedure
+    .input(
+      z.object({
+        distanceMetres: z.number().positive(),
+        stepCount: z.number().int().positive(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      let strideLengthMetres: number;
+      try {
+        strideLengthMetres = strideFromCalibration(
+          input.distanceMetres,
+          input.stepCount,
+        );
+      } catch (error: any) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error.message,
+        });
+      }
+
+      try {
+        return await prisma.userSettings.upsert({
+          where: { userId: ctx.session.user.id },
+          update: { strideLengthMetres },
+          create: {
+            userId: ctx.session.user.id,
+            strideLengthMetres,
+          },
+        });
+      } catch {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Could not update user settings",
+        });
+      }
+    }),
+
+  // Forget the calibrated stride and go back to the step size
+  clearStride: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await prisma.userSettings.upsert({
+        where: { userId: ctx.session.user.id },
+        update: { strideLengthMetres: null },
+        create: { userId: ctx.session.user.id },
+      });
+    } catch {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Could not update user settings",
+      });
+    }
+  }),
+
+  // Update mobility profile
+  updateMobilityProfile: protectedProcedure
+    .input(z.object({ mobilityProfile: z.enum(MobilityProfile) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await prisma.userSettings.upsert({
+          where: { userId: ctx.session.user.id },
+          update: { mobilityProfile: input.mobilityProfile },
+          create: {
+            userId: ctx.session.user.id,
+            mobilityProfile: input.mobilityProfile,
+          },
+        });
+      } catch {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Could not update user settings",
+        });
+      }
+    }),
+
+  // Update how distances are shown
+  updateDistanceUnit: protectedProcedure
+    .input(z.object({ distanceUnit: z.enum(DistanceUnit) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await prisma.userSettings.upsert({
+          where: { userId: ctx.session.user.id },
+          update: { distanceUnit: input.distanceUnit },
+          create: {
+            userId: ctx.session.user.id,
+            distanceUnit: input.distanceUnit,
+          },
+        });
+      } catch {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Could not update user settings",
+        });
+      }
+    }),
 });
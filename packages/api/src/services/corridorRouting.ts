@@ -0,0 +1,214 @@
+import prisma from "@sightmap/db";
+import type { Room } from "@sightmap/common/prisma/client";
+import {
+  roomEndpoint,
+  type CorridorGraph,
+} from "@sightmap/common/corridorGraph";
+import {
+  describeConnectorLeg,
+  findReachableTargetIds,
+  planBuildingRoute,
+  type FloorRoutingData,
+} from "@sightmap/common/buildingRoute";
+import {
+  buildConciseInstructions,
+  calculatePathSegments,
+  calculateRelativeDirections,
+  turnThresholdsFromSettings,
+} from "@sightmap/common/navigation";
+import { getPathLength } from "@sightmap/common/pathChain";
+import {
+  text,
+  warning,
+  type Instruction,
+} from "@sightmap/common/instructions";
+import {
+  pixelsToMetres,
+  resolvePixelsPerMetre,
+} from "@sightmap/common/scale";
+import {
+  getLegWarnings,
+  getRouteOptionsForProfile,
+  type MobilityProfileName,
+} from "@sightmap/common/mobility";
+
+export async function loadCorridorGraph(
+  floorId: string
+): Promise<CorridorGraph> {
+  const [nodes, edges] = await Promise.all([
+    prisma.corridorNode.findMany({ where: { floorId } }),
+    prisma.corridorEdge.findMany({ where: { floorId } }),
+  ]);
+  return { nodes, edges };
+}
+
+// Corridor graphs, rooms and connectors of every floor in a building
+async function loadBuildingRoutingData(buildingId: string) {
+  const [building, floors, connectors] = await Promise.all([
+    prisma.building.findUniqueOrThrow({ where: { id: buildingId } }),
+    prisma.floor.findMany({
+      where: { buildingId },
+      include: {
+        rooms: { orderBy: { name: "asc" } },
+        corridorNodes: true,
+        corridorEdges: true,
+      },
+    }),
+    // A connector is only usable once both of its landings are placed
+    prisma.verticalConnector.findMany({
+      where: { buildingId, toPlaced: true },
+    }),
+  ]);
+
+  const routingFloors: FloorRoutingData[] = floors.map((floor) => ({
+    floorId: floor.id,
+    level: floor.level,
+    graph: { nodes: floor.corridorNodes, edges: floor.corridorEdges },
+    pixelsPerMetre: floor.pixelsPerMetre,
+  }));
+
+  return {
+    floors,
+    routingFloors,
+    connectors,
+    turnThresholds: turnThresholdsFromSettings(building),
+  };
+}
+
+async function getBuildingId(floorId: string) {
+  const floor = await prisma.floor.findUnique({
+    where: { id: floorId },
+    select: { buildingId: true },
+  });
+  return floor?.buildingId ?? null;
+}
+
+// Build a path between two rooms of the same building from the corridor
+// graphs and vertical connectors. The result mirrors the shape of a stored
+// Path so pages can render either, except that its anchors are kept on its
+// walk legs, one floor each.
+export async function buildCorridorPath(
+  fromRoom: Room,
+  toRoom: Room,
+  profile: MobilityProfileName
+) {
+  const buildingId = await getBuildingId(fromRoom.floorId);
+  if (!buildingId || buildingId !== (await getBuildingId(toRoom.floorId))) {
+    return null;
+  }
+
+  const { floors, routingFloors, connectors, turnThresholds } =
+    await loadBuildingRoutingData(buildingId);
+
+  const route = planBuildingRoute(
+    routingFloors,
+    connectors,
+    { floorId: fromRoom.floorId, endpoint: roomEndpoint(fromRoom) },
+    { floorId: toRoom.floorId, endpoint: roomEndpoint(toRoom) },
+    getRouteOptionsForProfile(profile)
+  );
+  if (!route) return null;
+
+  const pathId = `corridor-${fromRoom.id}-${toRoom.id}`;
+  const conciseInstructions: Instruction[] = [];
+  // Walking distance only; floor changes add none
+  let lengthMetres = 0;
+
+  // The path is split at connectors: each walk keeps its own anchors, in
+  // its own floor's coordinates, and is measured and described alone
+  const legs = route.legs.map((leg, legIndex) => {
+    // The profile's warnings come before the leg they are about
+    conciseInstructions.push(
+      ...getLegWarnings(leg, profile).map((value) => [warning(value)])
+    );
+
+    if (leg.kind === "connector") {
+      const instruction = describeConnectorLeg(leg);
+      conciseInstructions.push([text(instruction)]);
+      return { ...leg, instruction };
+    }
+
+    const legAnchors = leg.anchors.map((point, index) => ({
+      id: `${pathId}-${legIndex}-${index}`,
+      pathId,
+      floorId: leg.floorId,
+      index,
+      xCoords: point.x,
+      yCoords: point.y,
+    }));
+
+    const floor = floors.find((floor) => floor.id === leg.floorId);
+    const pixelsPerMetre = resolvePixelsPerMetre(floor?.pixelsPerMetre);
+    lengthMetres += pixelsToMetres(
+      getPathLength(legAnchors),
+      pixelsPerMetre
+    );
+    conciseInstructions.push(
+      ...buildConciseInstructions(
+        calculateRelativeDirections(
+          calculatePathSegments(
+            legAnchors,
+            floor?.rooms ?? [],
+            floor && {
+              nodes: floor.corridorNodes,
+              edges: floor.corridorEdges,
+            },
+            pixelsPerMetre
+          ),
+          turnThresholds
+        )
+      )
+    );
+    return { ...leg, anchors: legAnchors };
+  });
+
+  return {
+    id: pathId,
+    fromRoomId: fromRoom.id,
+    toRoomId: toRoom.id,
+    fromRoom,
+    toRoom,
+    legs,
+    lengthMetres,
+    instructionSet: {
+      id: pathId,
+      pathId,
+      // Descriptive wording needs the LLM; concise steps come from geometry
+      descriptiveInstructions: [] as Instruction[],
+      conciseInstructions,
+    },
+  };
+}
+
+// Rooms anywhere in the building that corridors and connectors can reach
+export async function findCorridorDestinations(
+  fromRoom: Room,
+  profile: MobilityProfileName
+) {
+  const buildingId = await getBuildingId(fromRoom.floorId);
+  if (!buildingId) return [];
+
+  const { floors, routingFloors, connectors } =
+    await loadBuildingRoutingData(buildingId);
+
+  const candidates = floors.flatMap((floor) =>
+    floor.rooms.map((room) => ({ room, level: floor.level }))
+  );
+  const reachable = new Set(
+    findReachableTargetIds(
+      routingFloors,
+      connectors,
+      { floorId: fromRoom.floorId, endpoint: roomEndpoint(fromRoom) },
+      candidates.map(({ room }) => ({
+        floorId: room.floorId,
+        endpoint: roomEndpoint(room),
+      })),
+      getRouteOptionsForProfile(profile)
+    )
+  );
+
+  return candidates
+    .filter(({ room }) => reachable.has(room.id))
+    .sort((a, b) => a.level - b.level)
+    .map(({ room, level }) => ({ ...room, floorLevel: level }));
+}
@@ -0,0 +1,67 @@
+import prisma from "@sightmap/db";
+import type { PathAnchor, Room } from "@sightmap/common/prisma/client";
+import {
+  instructionFingerprint,
+  isFingerprintStale,
+  type FingerprintedSet,
+} from "@sightmap/common/fingerprint";
+import { turnThresholdsFromSettings } from "@sightmap/common/navigation";
+
+interface FingerprintedPath {
+  id: string;
+  anchors: Pick<PathAnchor, "xCoords" | "yCoords">[];
+  fromRoom: Pick<Room, "name" | "number">;
+  toRoom: Pick<Room, "name" | "number">;
+}
+
+// Load what a floor's paths are fingerprinted against and return a check
+// for whether a path's saved instructions were generated from something
+// else. Fingerprints are worked out once per path.
+export async function loadStaleInstructionCheck(floorId: string) {
+  const [floor, rooms, nodes, edges] = await Promise.all([
+    prisma.floor.findUnique({
+      where: { id: floorId },
+      select: { pixelsPerMetre: true, building: true },
+    }),
+    prisma.room.findMany({ where: { floorId } }),
+    prisma.corridorNode.findMany({ where: { floorId } }),
+    prisma.corridorEdge.findMany({ where: { floorId } }),
+  ]);
+
+  // Sets saved without a fingerprint go stale when any room is edited
+  const lastRoomEdit = new Date(
+    Math.max(0, ...rooms.map((room) => room.updatedAt.getTime()))
+  );
+
+  const fingerprints = new Map<string, string>();
+  const fingerprintOf = (path: FingerprintedPath) => {
+    let fingerprint = fingerprints.get(path.id);
+    if (fingerprint === undefined) {
+      fingerprint = instructionFingerprint({
+        anchors: path.anchors,
+        rooms,
+        corridorGraph: { nodes, edges },
+        pixelsPerMetre: floor?.pixelsPerMetre ?? null,
+        turnThresholds: floor
+          ? turnThresholdsFromSettings(floor.building)
+          : undefined,
+        fromRoom: path.fromRoom,
+        toRoom: path.toRoom,
+      });
+      fingerprints.set(path.id, fingerprint);
+    }
+    return fingerprint;
+  };
+
+  return (
+    path: FingerprintedPath & {
+      instructionSet: FingerprintedSet | null;
+    }
+  ) =>
+    !!path.instructionSet &&
+    isFingerprintStale(
+      path.instructionSet,
+      fingerprintOf(path),
+      lastRoomEdit
+    );
+}
@@ -0,0 +1,204 @@
+import type {
+  InstructionSet,
+  InstructionVersion,
+  Prisma,
+} from "@sightmap/common/prisma/client";
+import type { InstructionSource } from "@sightmap/common/prisma/enums";
+import {
+  toInstructions,
+  type Instruction,
+} from "@sightmap/common/instructions";
+
+// A stored instruction set with its token columns read as Instruction[].
+// The legacy string columns are only needed by the migration script.
+export function readInstructionSet(set: InstructionSet) {
+  return {
+    id: set.id,
+    pathId: set.pathId,
+    updatedAt: set.updatedAt,
+    descriptiveInstructions: toInstructions(set.descriptiveInstructions),
+    conciseInstructions: toInstructions(set.conciseInstructions),
+    provider: set.provider,
+    model: set.model,
+    version: set.version,
+    status: set.status,
+    publishedVersionId: set.publishedVersionId,
+  };
+}
+
+// Load a path's instruction set this way to read its published version
+export const publishedInstructionSet = {
+  include: { publishedVersion: true },
+} satisfies Prisma.InstructionSetDefaultArgs;
+
+type SetWithPublishedVersion = InstructionSet & {
+  publishedVersion: InstructionVersion | null;
+};
+
+// The instructions the public pages show: the published version, or the
+// set itself for sets saved before versions were kept. Null when nothing
+// has been published yet.
+export function readPublishedInstructionSet(set: SetWithPublishedVersion) {
+  const published = set.publishedVersion;
+  if (published) {
+    return {
+      ...readInstructionSet(set),
+      descriptiveInstructions: toInstructions(
+        published.descriptiveInstructions
+      ),
+      conciseInstructions: toInstructions(published.conciseInstructions),
+      provider: published.provider,
+      model: published.model,
+      version: published.version,
+      status: "PUBLISHED" as const,
+    };
+  }
+  return set.version === null && set.status === "PUBLISHED"
+    ? readInstructionSet(set)
+    : null;
+}
+
+// Paths as loaded with `instructionSet: publishedInstructionSet`, with
+// only what has been published
+export function withPublishedInstructionSet<
+  T extends { instructionSet: SetWithPublishedVersion | null },
+>(path: T): Omit<T, "instructionSet"> & {
+  instructionSet: ReturnType<typeof readPublishedInstructionSet>;
+} {
+  return {
+    ...path,
+    instructionSet:
+      path.instructionSet && readPublishedInstructionSet(path.instructionSet),
+  };
+}
+
+// Paths as loaded with `instructionSet: publishedInstructionSet`, read for
+// whoever asked: the current set, drafts included, for signed-in editors
+// and only what has been published for anyone else
+export function withVisibleInstructionSet(signedIn: boolean) {
+  return <T extends { instructionSet: SetWithPublishedVersion | null }>(
+    path: T
+  ) => (signedIn ? withInstructionSet(path) : withPublishedInstructionSet(path));
+}
+
+// Paths as loaded with `instructionSet: true`, with that set read
+export function withInstructionSet<
+  T extends { instructionSet: InstructionSet | null },
+>(path: T): Omit<T, "instructionSet"> & {
+  instructionSet: ReturnType<typeof readInstructionSet> | null;
+} {
+  return {
+    ...path,
+    instructionSet:
+      path.instructionSet && readInstructionSet(path.instructionSet),
+  };
+}
+
+export interface InstructionVersionData {
+  descriptiveInstructions: Instruction[];
+  conciseInstructions: Instruction[];
+  source: InstructionSource;
+  provider: string | null;
+  model: string | null;
+  fingerprint: string | null;
+  authorId: string | null;
+  restoredFrom?: number;
+}
+
+// How generated instructions were written, from the provider that
+// generated them
+export function instructionSource(provider: string): InstructionSource {
+  return provider === "template" ? "TEMPLATE" : "LLM";
+}
+
+// Keep a set saved before versions were kept as the path's version 1, so
+// its instructions stay in the history once a newer version is saved. A
+// published set stays published as that version while the new one is a
+// draft. `bun run db:backfill-instruction-versions` does the same for
+// every set.
+async function snapshotLegacySet(
+  tx: Prisma.TransactionClient,
+  set: InstructionSet
+) {
+  const snapshot = await tx.instructionVersion.create({
+    data: {
+      pathId: set.pathId,
+      version: 1,
+      descriptiveInstructions: toInstructions(set.descriptiveInstructions),
+      conciseInstructions: toInstructions(set.conciseInstructions),
+      // Without a provider there is no telling how the set was written
+      source:
+        set.provider === null ? "LEGACY" : instructionSource(set.provider),
+      provider: set.provider,
+      model: set.model,
+      fingerprint: set.fingerprint,
+      authorId: set.requestedById,
+      createdAt: set.updatedAt,
+    },
+  });
+  await tx.instructionSet.update({
+    where: { id: set.id },
+    data: {
+      version: 1,
+      ...(set.status === "PUBLISHED" && { publishedVersionId: snapshot.id }),
+    },
+  });
+}
+
+// Two saves at once can pick the same next version number. The one that
+// loses fails on the unique version, so its transaction is run again on
+// top of the winner's version.
+export async function retryOnVersionConflict<T>(
+  save: () => Promise<T>,
+  attempts = 3
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await save();
+    } catch (error: any) {
+      if (error?.code !== "P2002" || attempt >= attempts) throw error;
+    }
+  }
+}
+
+// Save instructions as the path's newest version and make them its
+// current instruction set. Returns the new version number. Run it in a
+// transaction wrapped in retryOnVersionConflict.
+export async function saveInstructionVersion(
+  tx: Prisma.TransactionClient,
+  pathId: string,
+  data: InstructionVersionData
+): Promise<number> {
+  const existing = await tx.instructionSet.findUnique({ where: { pathId } });
+  if (existing && existing.version === null) {
+    await snapshotLegacySet(tx, existing);
+  }
+
+  const latest = await tx.instructionVersion.findFirst({
+    where: { pathId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+  const version = (latest?.version ?? 0) + 1;
+  await tx.instructionVersion.create({
+    data: { pathId, version, ...data },
+  });
+
+  const current = {
+    descriptiveInstructions: data.descriptiveInstructions,
+    conciseInstructions: data.conciseInstructions,
+    provider: data.provider,
+    model: data.model,
+    fingerprint: data.fingerprint,
+    requestedById: data.authorId,
+    version,
+    // Every new version is checked again before it goes public
+    status: "DRAFT" as const,
+  };
+  await tx.instructionSet.upsert({
+    where: { pathId },
+    update: current,
+    create: { pathId, ...current },
+  });
+  return version;
+}
@@ -0,0 +1,81 @@
+import prisma from "@sightmap/db";
+import type { Room } from "@sightmap/common/prisma/client";
+import {
+  combineChainInstructions,
+  findChainedRoomIds,
+  findPathChain,
+  joinChainAnchors,
+} from "@sightmap/common/pathChain";
+import {
+  publishedInstructionSet,
+  withPublishedInstructionSet,
+} from "./instructionSets";
+
+// Drawn paths between the rooms of a floor, the edges a chain can use,
+// with their published instructions
+async function loadFloorPaths(floorId: string) {
+  const paths = await prisma.path.findMany({
+    where: { fromRoom: { floorId } },
+    include: {
+      anchors: { orderBy: { index: "asc" } },
+      instructionSet: publishedInstructionSet,
+      toRoom: true,
+    },
+  });
+  return paths.map(withPublishedInstructionSet);
+}
+
+// Build a route from fromRoom to toRoom by chaining drawn paths through
+// intermediate rooms. The result mirrors the shape of a stored Path.
+export async function buildChainedPath(fromRoom: Room, toRoom: Room) {
+  if (fromRoom.floorId !== toRoom.floorId) return null;
+
+  const chain = findPathChain(
+    await loadFloorPaths(fromRoom.floorId),
+    fromRoom.id,
+    toRoom.id
+  );
+  // A single hop is a direct path, which callers look up themselves
+  if (!chain || chain.length < 2) return null;
+
+  const pathId = `chain-${chain.map((path) => path.id).join("-")}`;
+
+  return {
+    id: pathId,
+    fromRoomId: fromRoom.id,
+    toRoomId: toRoom.id,
+    fromRoom,
+    toRoom,
+    anchors: joinChainAnchors(chain).map((anchor, index) => ({
+      id: `${pathId}-${index}`,
+      pathId,
+      index,
+      ...anchor,
+    })),
+    // Rooms whose doors the route passes through on the way
+    viaRooms: chain.slice(0, -1).map((path) => path.toRoom),
+    instructionSet: {
+      id: pathId,
+      pathId,
+      ...combineChainInstructions(chain),
+    },
+  };
+}
+
+// Rooms on fromRoom's floor that a chain of two or more drawn paths reaches
+export async function findChainedDestinations(fromRoom: Room) {
+  const paths = await loadFloorPaths(fromRoom.floorId);
+  const directIds = new Set(
+    paths
+      .filter((path) => path.fromRoomId === fromRoom.id)
+      .map((path) => path.toRoomId)
+  );
+  const chainedIds = findChainedRoomIds(paths, fromRoom.id).filter(
+    (roomId) => !directIds.has(roomId)
+  );
+
+  return await prisma.room.findMany({
+    where: { id: { in: chainedIds } },
+    orderBy: { name: "asc" },
+  });
+}
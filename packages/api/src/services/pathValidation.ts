@@ -0,0 +1,44 @@
+import { TRPCError } from "@trpc/server";
+import {
+  validatePathGeometry,
+  type PathValidationIssue,
+  type ValidationRoom,
+} from "@sightmap/common/pathValidation";
+
+// Carries the geometry issues of a rejected path; the tRPC error formatter
+// copies them into the error data so the canvas can highlight them
+export class PathValidationError extends Error {
+  constructor(
+    public readonly issues: (PathValidationIssue & { pathIndex?: number })[],
+  ) {
+    super(issues.map((issue) => issue.message).join("; "));
+    this.name = "PathValidationError";
+  }
+}
+
+// Throw a BAD_REQUEST listing every problem with the given paths.
+// pathIndex identifies the offending path when several are saved at once.
+export function assertValidPaths(
+  paths: {
+    pathIndex?: number;
+    anchors: { x: number; y: number }[];
+    fromRoom: ValidationRoom;
+    toRoom: ValidationRoom;
+  }[],
+  rooms: ValidationRoom[],
+) {
+  const issues = paths.flatMap((path) =>
+    validatePathGeometry(path.anchors, path.fromRoom, path.toRoom, rooms).map(
+      (issue) => ({ ...issue, pathIndex: path.pathIndex }),
+    ),
+  );
+
+  if (issues.length > 0) {
+    const cause = new PathValidationError(issues);
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: cause.message,
+      cause,
+    });
+  }
+}
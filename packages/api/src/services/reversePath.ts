@@ -0,0 +1,111 @@
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@sightmap/common/prisma/client";
+import {
+  buildConciseInstructions,
+  calculatePathSegments,
+  calculateRelativeDirections,
+  turnThresholdsFromSettings,
+} from "@sightmap/common/navigation";
+import { resolvePixelsPerMetre } from "@sightmap/common/scale";
+import { withInstructionSet } from "./instructionSets";
+
+// Create the B→A path for an existing A→B path by mirroring its anchors.
+// Segments are recomputed for the new direction so turns come out right;
+// descriptive instructions are queued for the generation worker in the
+// same transaction, so the new path never goes without them.
+export async function createReversePath(
+  tx: Prisma.TransactionClient,
+  pathId: string,
+  requestedById: string
+) {
+  const path = await tx.path.findUnique({
+    where: { id: pathId },
+    include: {
+      anchors: { orderBy: { index: "asc" } },
+      fromRoom: { include: { floor: { include: { building: true } } } },
+    },
+  });
+  if (!path) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Path not found",
+    });
+  }
+
+  const existing = await tx.path.findFirst({
+    where: { fromRoomId: path.toRoomId, toRoomId: path.fromRoomId },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A path already exists in the reverse direction",
+    });
+  }
+
+  const anchors = [...path.anchors].reverse();
+  const floorId = path.fromRoom.floorId;
+  const [rooms, nodes, edges] = await Promise.all([
+    tx.room.findMany({ where: { floorId } }),
+    tx.corridorNode.findMany({ where: { floorId } }),
+    tx.corridorEdge.findMany({ where: { floorId } }),
+  ]);
+  const conciseInstructions = buildConciseInstructions(
+    calculateRelativeDirections(
+      calculatePathSegments(
+        anchors,
+        rooms,
+        { nodes, edges },
+        resolvePixelsPerMetre(path.fromRoom.floor.pixelsPerMetre)
+      ),
+      turnThresholdsFromSettings(path.fromRoom.floor.building)
+    )
+  );
+
+  await tx.path.update({
+    where: { id: path.id },
+    data: { bidirectional: true },
+  });
+
+  const reversePath = await tx.path.create({
+    data: {
+      fromRoomId: path.toRoomId,
+      toRoomId: path.fromRoomId,
+      bidirectional: true,
+      anchors: {
+        create: anchors.map((anchor, index) => ({
+          index,
+          xCoords: anchor.xCoords,
+          yCoords: anchor.yCoords,
+        })),
+      },
+      instructionSet: {
+        create: {
+          descriptiveInstructions: [],
+          conciseInstructions,
+          status: "DRAFT",
+        },
+      },
+    },
+    include: {
+      anchors: { orderBy: { index: "asc" } },
+      instructionSet: true,
+      fromRoom: true,
+      toRoom: true,
+    },
+  });
+
+  const generationJob = await tx.generationJob.create({
+    data: {
+      buildingId: path.fromRoom.floor.buildingId,
+      floorId,
+      requestedById,
+      tasks: { create: { pathId: reversePath.id } },
+    },
+    select: { id: true },
+  });
+
+  return {
+    ...withInstructionSet(reversePath),
+    generationJobId: generationJob.id,
+  };
+}
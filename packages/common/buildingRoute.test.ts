@@ -0,0 +1,184 @@
+import { expect, test, describe } from "vitest";
+import {
+  describeConnectorLeg,
+  findReachableTargetIds,
+  planBuildingRoute,
+  type ConnectorLink,
+  type FloorRoutingData,
+  type RouteTarget,
+} from "./buildingRoute";
+import { DEFAULT_PIXELS_PER_METRE } from "./scale";
+
+// Two floors with a straight corridor each. The stairs sit at the west end
+// and the elevator at the east end of both corridors.
+const ground: FloorRoutingData = {
+  floorId: "ground",
+  level: 1,
+  graph: {
+    nodes: [
+      { id: "g1", x: 0, y: 100, roomId: null },
+      { id: "g2", x: 400, y: 100, roomId: null },
+    ],
+    edges: [{ fromNodeId: "g1", toNodeId: "g2" }],
+  },
+};
+const upper: FloorRoutingData = {
+  floorId: "upper",
+  level: 2,
+  graph: {
+    nodes: [
+      { id: "u1", x: 0, y: 100, roomId: null },
+      { id: "u2", x: 400, y: 100, roomId: null },
+    ],
+    edges: [{ fromNodeId: "u1", toNodeId: "u2" }],
+  },
+};
+const basement: FloorRoutingData = {
+  floorId: "basement",
+  level: 0,
+  graph: { nodes: [], edges: [] },
+};
+
+const stairs: ConnectorLink = {
+  id: "stairs",
+  type: "STAIRS",
+  name: "",
+  fromFloorId: "ground",
+  fromX: 0,
+  fromY: 100,
+  toFloorId: "upper",
+  toX: 0,
+  toY: 100,
+};
+const elevator: ConnectorLink = {
+  ...stairs,
+  id: "elevator",
+  type: "ELEVATOR",
+  name: "Lift A",
+  fromX: 400,
+  toX: 400,
+};
+
+const start: RouteTarget = {
+  floorId: "ground",
+  endpoint: { id: "lobby", x: 40, y: 100 },
+};
+const end: RouteTarget = {
+  floorId: "upper",
+  endpoint: { id: "office", x: 40, y: 100 },
+};
+
+describe("Building routing", () => {
+  describe("planBuildingRoute", () => {
+    test("walks, takes the nearest connector and walks again", () => {
+      const route = planBuildingRoute(
+        [ground, upper],
+        [stairs, elevator],
+        start,
+        end
+      );
+
+      expect(route?.legs.map((leg) => leg.kind)).toEqual([
+        "walk",
+        "connector",
+        "walk",
+      ]);
+      const connectorLeg = route?.legs[1];
+      expect(
+        connectorLeg?.kind === "connector" && connectorLeg.connector.id
+      ).toBe("stairs");
+    });
+
+    test("stays on one floor when both ends share it", () => {
+      const route = planBuildingRoute(
+        [ground, upper],
+        [stairs],
+        start,
+        { floorId: "ground", endpoint: { id: "cafe", x: 360, y: 100 } }
+      );
+
+      expect(route?.legs).toHaveLength(1);
+      expect(route?.cost).toBeCloseTo(
+        (40 + 400 + 40) / DEFAULT_PIXELS_PER_METRE
+      );
+    });
+
+    test("weighs walks in metres on each floor's own scale", () => {
+      // The upper floor is drawn at a finer scale, so its 420 pixel walk
+      // from the stairs is only 4.2 metres
+      const finerUpper: FloorRoutingData = { ...upper, pixelsPerMetre: 100 };
+      const route = planBuildingRoute(
+        [ground, finerUpper],
+        [stairs, elevator],
+        start,
+        { floorId: "upper", endpoint: { id: "office", x: 380, y: 100 } }
+      );
+
+      const connectorLeg = route?.legs[1];
+      expect(
+        connectorLeg?.kind === "connector" && connectorLeg.connector.id
+      ).toBe("stairs");
+      expect(route?.cost).toBeCloseTo(
+        40 / DEFAULT_PIXELS_PER_METRE + 7 + (400 + 20) / 100
+      );
+    });
+
+    test("skips connectors ruled out by the cost function", () => {
+      const route = planBuildingRoute(
+        [ground, upper],
+        [stairs, elevator],
+        start,
+        end,
+        {
+          connectorCost: (connector) =>
+            connector.type === "STAIRS" ? Infinity : 0,
+        }
+      );
+
+      const connectorLeg = route?.legs.find(
+        (leg) => leg.kind === "connector"
+      );
+      expect(
+        connectorLeg?.kind === "connector" && connectorLeg.connector.id
+      ).toBe("elevator");
+    });
+
+    test("returns null when no connector reaches the floor", () => {
+      expect(
+        planBuildingRoute([ground, upper, basement], [stairs], start, {
+          floorId: "basement",
+          endpoint: { id: "storage", x: 0, y: 0 },
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("findReachableTargetIds", () => {
+    test("reaches targets on connected floors only", () => {
+      expect(
+        findReachableTargetIds([ground, upper, basement], [elevator], start, [
+          end,
+          {
+            floorId: "basement",
+            endpoint: { id: "storage", x: 0, y: 0 },
+          },
+        ])
+      ).toEqual(["office"]);
+    });
+  });
+
+  describe("describeConnectorLeg", () => {
+    test("names the connector and the direction of travel", () => {
+      expect(
+        describeConnectorLeg({
+          kind: "connector",
+          connector: elevator,
+          fromFloorId: "upper",
+          toFloorId: "ground",
+          fromLevel: 2,
+          toLevel: 1,
+        })
+      ).toBe("Take the elevator (Lift A) down to level 1");
+    });
+  });
+});
@@ -0,0 +1,350 @@
+// Routing across the floors of a building: per-floor corridor walks joined
+// by vertical connectors (stairs, elevators, ramps).
+
+import {
+  findEndpointRoute,
+  findReachableEndpointIds,
+  type CorridorGraph,
+  type CorridorRouteOptions,
+  type Position,
+  type RouteEndpoint,
+} from "./corridorGraph";
+import { MEDIUM_STEP_METRES, resolvePixelsPerMetre } from "./scale";
+
+export type ConnectorKind = "STAIRS" | "ELEVATOR" | "RAMP";
+
+export interface FloorRoutingData {
+  floorId: string;
+  level: number;
+  graph: CorridorGraph;
+  // The floor's calibrated scale; walks are weighed in metres with it
+  pixelsPerMetre?: number | null;
+}
+
+export interface ConnectorLink {
+  id: string;
+  type: ConnectorKind;
+  name: string;
+  fromFloorId: string;
+  fromX: number;
+  fromY: number;
+  toFloorId: string;
+  toX: number;
+  toY: number;
+}
+
+export interface RouteTarget {
+  floorId: string;
+  endpoint: RouteEndpoint;
+}
+
+export type RouteLeg =
+  | {
+      kind: "walk";
+      floorId: string;
+      level: number;
+      anchors: Position[];
+      distance: number;
+      heavyDoors: Position[];
+    }
+  | {
+      kind: "connector";
+      connector: ConnectorLink;
+      fromFloorId: string;
+      toFloorId: string;
+      fromLevel: number;
+      toLevel: number;
+    };
+
+export interface BuildingRoute {
+  legs: RouteLeg[];
+  // In metres of walking, with connectors counted as their cost
+  cost: number;
+}
+
+export interface BuildingRouteOptions {
+  // Cost of using a connector across the given number of levels, in
+  // metres of walking; return Infinity to rule the connector out
+  connectorCost?: (connector: ConnectorLink, levels: number) => number;
+  // How walks along each floor's corridors are weighed
+  corridor?: CorridorRouteOptions;
+}
+
+// Ten medium steps of walking per level changed
+export const DEFAULT_CONNECTOR_METRES_PER_LEVEL = 10 * MEDIUM_STEP_METRES;
+
+const defaultConnectorCost = (_: ConnectorLink, levels: number) =>
+  levels * DEFAULT_CONNECTOR_METRES_PER_LEVEL;
+
+interface Landing extends RouteEndpoint {
+  floorId: string;
+  connector: ConnectorLink;
+  // The landing at the other end of the connector
+  oppositeId: string;
+}
+
+// Each connector has a landing on both of its floors
+function getLandings(connectors: ConnectorLink[]): Landing[] {
+  return connectors.flatMap((connector) => [
+    {
+      id: `${connector.id}:from`,
+      oppositeId: `${connector.id}:to`,
+      floorId: connector.fromFloorId,
+      x: connector.fromX,
+      y: connector.fromY,
+      connector,
+    },
+    {
+      id: `${connector.id}:to`,
+      oppositeId: `${connector.id}:from`,
+      floorId: connector.toFloorId,
+      x: connector.toX,
+      y: connector.toY,
+      connector,
+    },
+  ]);
+}
+
+const START = "start";
+const END = "end";
+
+// Cheapest route between two points that may be on different floors, or
+// null when no combination of corridors and connectors links them
+export function planBuildingRoute(
+  floors: FloorRoutingData[],
+  connectors: ConnectorLink[],
+  from: RouteTarget,
+  to: RouteTarget,
+  options: BuildingRouteOptions = {}
+): BuildingRoute | null {
+  const connectorCost = options.connectorCost ?? defaultConnectorCost;
+  const floorsById = new Map(floors.map((floor) => [floor.floorId, floor]));
+  const landings = getLandings(connectors).filter((landing) =>
+    floorsById.has(landing.floorId)
+  );
+  const landingsById = new Map(
+    landings.map((landing) => [landing.id, landing])
+  );
+
+  const stateFloor = (state: string) =>
+    state === START
+      ? from.floorId
+      : state === END
+      ? to.floorId
+      : landingsById.get(state)!.floorId;
+  const statePoint = (state: string): RouteEndpoint =>
+    state === START
+      ? from.endpoint
+      : state === END
+      ? to.endpoint
+      : landingsById.get(state)!;
+
+  // Corridor walks are only computed once per pair of states
+  const walkCache = new Map<string, ReturnType<typeof findEndpointRoute>>();
+  const walk = (a: string, b: string) => {
+    const key = `${a}|${b}`;
+    if (!walkCache.has(key)) {
+      const floor = floorsById.get(stateFloor(a));
+      walkCache.set(
+        key,
+        floor
+          ? findEndpointRoute(
+              floor.graph,
+              statePoint(a),
+              statePoint(b),
+              options.corridor
+            )
+          : null
+      );
+    }
+    return walkCache.get(key)!;
+  };
+
+  const costs = new Map<string, number>([[START, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    let currentCost = Infinity;
+    for (const [state, cost] of costs) {
+      if (!visited.has(state) && cost < currentCost) {
+        current = state;
+        currentCost = cost;
+      }
+    }
+    if (current === null || current === END) break;
+    visited.add(current);
+
+    const relax = (next: string, cost: number) => {
+      if (cost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, cost);
+        previous.set(next, current!);
+      }
+    };
+
+    const floorId = stateFloor(current);
+    // A landing walked to is only left by riding; walking on from it is
+    // never shorter than walking straight there
+    const landing = landingsById.get(current);
+    const canWalk = !landing || previous.get(current) === landing.oppositeId;
+
+    // Walk to the destination or to any connector landing on this floor
+    const walkTargets = canWalk
+      ? [
+          ...(floorId === to.floorId ? [END] : []),
+          ...landings
+            .filter(
+              (landing) =>
+                landing.floorId === floorId && landing.id !== current
+            )
+            .map((landing) => landing.id),
+        ]
+      : [];
+    for (const target of walkTargets) {
+      const route = walk(current, target);
+      if (route) {
+        // Floors are drawn at their own scales, so walks compare in metres
+        const pixelsPerMetre = resolvePixelsPerMetre(
+          floorsById.get(floorId)!.pixelsPerMetre
+        );
+        relax(target, currentCost + route.cost / pixelsPerMetre);
+      }
+    }
+
+    // Ride the connector from a landing to its other end
+    if (landing && landingsById.has(landing.oppositeId)) {
+      const opposite = landingsById.get(landing.oppositeId)!;
+      const levels = Math.abs(
+        floorsById.get(opposite.floorId)!.level -
+          floorsById.get(landing.floorId)!.level
+      );
+      const cost = connectorCost(landing.connector, Math.max(levels, 1));
+      if (Number.isFinite(cost)) {
+        relax(opposite.id, currentCost + cost);
+      }
+    }
+  }
+
+  if (!costs.has(END)) return null;
+
+  const states = [END];
+  while (states[0] !== START) {
+    states.unshift(previous.get(states[0]!)!);
+  }
+
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i < states.length - 1; i++) {
+    const a = states[i]!;
+    const b = states[i + 1]!;
+    const landingA = landingsById.get(a);
+
+    if (landingA && landingA.oppositeId === b) {
+      legs.push({
+        kind: "connector",
+        connector: landingA.connector,
+        fromFloorId: landingA.floorId,
+        toFloorId: stateFloor(b),
+        fromLevel: floorsById.get(landingA.floorId)!.level,
+        toLevel: floorsById.get(stateFloor(b))!.level,
+      });
+    } else {
+      const route = walk(a, b)!;
+      const floor = floorsById.get(stateFloor(a))!;
+      legs.push({
+        kind: "walk",
+        floorId: floor.floorId,
+        level: floor.level,
+        anchors: route.anchors,
+        distance: route.distance,
+        heavyDoors: route.heavyDoors,
+      });
+    }
+  }
+
+  return { legs, cost: costs.get(END)! };
+}
+
+// Ids of the targets reachable from the start point, on any floor
+export function findReachableTargetIds(
+  floors: FloorRoutingData[],
+  connectors: ConnectorLink[],
+  from: RouteTarget,
+  targets: RouteTarget[],
+  options: BuildingRouteOptions = {}
+): string[] {
+  const connectorCost = options.connectorCost ?? defaultConnectorCost;
+  const floorsById = new Map(floors.map((floor) => [floor.floorId, floor]));
+  const usableConnectors = connectors.filter((connector) =>
+    Number.isFinite(connectorCost(connector, 1))
+  );
+  const landings = getLandings(usableConnectors).filter((landing) =>
+    floorsById.has(landing.floorId)
+  );
+  const landingsById = new Map(
+    landings.map((landing) => [landing.id, landing])
+  );
+
+  const reached = new Set<string>();
+  const visitedLandings = new Set<string>();
+  const queue: RouteTarget[] = [from];
+
+  while (queue.length > 0) {
+    const { floorId, endpoint } = queue.shift()!;
+    const floor = floorsById.get(floorId);
+    if (!floor) continue;
+
+    const floorTargets = targets.filter(
+      (target) => target.floorId === floorId
+    );
+    const floorLandings = landings.filter(
+      (landing) => landing.floorId === floorId
+    );
+    const reachable = new Set(
+      findReachableEndpointIds(floor.graph, endpoint, [
+        ...floorTargets.map((target) => target.endpoint),
+        ...floorLandings,
+      ])
+    );
+
+    for (const target of floorTargets) {
+      if (reachable.has(target.endpoint.id)) {
+        reached.add(target.endpoint.id);
+      }
+    }
+
+    for (const landing of floorLandings) {
+      if (!reachable.has(landing.id) || visitedLandings.has(landing.id)) {
+        continue;
+      }
+      visitedLandings.add(landing.id);
+      const opposite = landingsById.get(landing.oppositeId);
+      if (opposite && !visitedLandings.has(opposite.id)) {
+        visitedLandings.add(opposite.id);
+        queue.push({ floorId: opposite.floorId, endpoint: opposite });
+      }
+    }
+  }
+
+  reached.delete(from.endpoint.id);
+  return targets
+    .map((target) => target.endpoint.id)
+    .filter((id) => reached.has(id));
+}
+
+const CONNECTOR_NOUNS: Record<ConnectorKind, string> = {
+  STAIRS: "stairs",
+  ELEVATOR: "elevator",
+  RAMP: "ramp",
+};
+
+// Transition sentence between two per-floor segments,
+// e.g. "Take the elevator up to level 3"
+export function describeConnectorLeg(
+  leg: Extract<RouteLeg, { kind: "connector" }>
+): string {
+  const noun = CONNECTOR_NOUNS[leg.connector.type];
+  const name = leg.connector.name ? ` (${leg.connector.name})` : "";
+  const direction = leg.toLevel > leg.fromLevel ? "up" : "down";
+  return `Take the ${noun}${name} ${direction} to level ${leg.toLevel}`;
+}
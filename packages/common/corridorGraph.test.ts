@@ -0,0 +1,167 @@
+import { expect, test, describe } from "vitest";
+import {
+  findCorridorRoute,
+  findReachableRoomIds,
+  getDoorNodes,
+  getRoomDoorPosition,
+  simplifyAnchors,
+  type CorridorGraph,
+  type RoutableRoom,
+} from "./corridorGraph";
+
+// Two rooms above a horizontal corridor at y = 110, a third room that the
+// corridor does not reach
+const roomA: RoutableRoom = { id: "a", x: 0, y: 0, doorX: 40, doorY: 80 };
+const roomB: RoutableRoom = {
+  id: "b",
+  x: 200,
+  y: 0,
+  doorX: 40,
+  doorY: 80,
+};
+const roomC: RoutableRoom = {
+  id: "c",
+  x: 600,
+  y: 600,
+  doorX: 0,
+  doorY: 0,
+};
+
+const graph: CorridorGraph = {
+  nodes: [
+    { id: "n1", x: 50, y: 90, roomId: "a" },
+    { id: "n2", x: 50, y: 130, roomId: null },
+    { id: "n3", x: 150, y: 130, roomId: null },
+    { id: "n4", x: 250, y: 130, roomId: null },
+    { id: "n5", x: 250, y: 90, roomId: "b" },
+    { id: "island", x: 590, y: 590, roomId: "c" },
+  ],
+  edges: [
+    { fromNodeId: "n1", toNodeId: "n2" },
+    { fromNodeId: "n2", toNodeId: "n3" },
+    // Drawn the other way round; edges are undirected
+    { fromNodeId: "n4", toNodeId: "n3" },
+    { fromNodeId: "n4", toNodeId: "n5" },
+  ],
+};
+
+describe("Corridor graph routing", () => {
+  describe("getRoomDoorPosition", () => {
+    test("returns the centre of the door cell", () => {
+      expect(getRoomDoorPosition(roomA)).toEqual({ x: 50, y: 90 });
+    });
+  });
+
+  describe("getDoorNodes", () => {
+    test("prefers nodes linked to the room", () => {
+      expect(getDoorNodes(graph, roomA).map((n) => n.id)).toEqual([
+        "n1",
+      ]);
+    });
+
+    test("falls back to the closest corridor node", () => {
+      const unlinked: RoutableRoom = {
+        id: "d",
+        x: 120,
+        y: 160,
+        doorX: 20,
+        doorY: 0,
+      };
+      expect(getDoorNodes(graph, unlinked).map((n) => n.id)).toEqual([
+        "n3",
+      ]);
+    });
+  });
+
+  describe("simplifyAnchors", () => {
+    test("removes duplicate and collinear points", () => {
+      expect(
+        simplifyAnchors([
+          { x: 0, y: 0 },
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 20, y: 0 },
+          { x: 20, y: 10 },
+        ])
+      ).toEqual([
+        { x: 0, y: 0 },
+        { x: 20, y: 0 },
+        { x: 20, y: 10 },
+      ]);
+    });
+  });
+
+  describe("findCorridorRoute", () => {
+    test("builds anchors from door to door along the corridor", () => {
+      const route = findCorridorRoute(graph, roomA, roomB);
+
+      expect(route?.anchors).toEqual([
+        { x: 50, y: 90 },
+        { x: 50, y: 130 },
+        { x: 250, y: 130 },
+        { x: 250, y: 90 },
+      ]);
+      expect(route?.distance).toBe(40 + 200 + 40);
+    });
+
+    test("picks the shorter of two corridors", () => {
+      const withShortcut: CorridorGraph = {
+        nodes: [
+          ...graph.nodes,
+          { id: "s1", x: 150, y: 110, roomId: null },
+        ],
+        edges: [
+          ...graph.edges,
+          { fromNodeId: "n1", toNodeId: "s1" },
+          { fromNodeId: "s1", toNodeId: "n5" },
+        ],
+      };
+
+      const route = findCorridorRoute(withShortcut, roomA, roomB);
+      expect(route?.anchors).toContainEqual({ x: 150, y: 110 });
+    });
+
+    test("detours around heavy doors when they cost more", () => {
+      const throughFireDoor: CorridorGraph = {
+        nodes: [
+          ...graph.nodes,
+          { id: "s1", x: 150, y: 110, roomId: null },
+        ],
+        edges: [
+          ...graph.edges,
+          { fromNodeId: "n1", toNodeId: "s1" },
+          { fromNodeId: "s1", toNodeId: "n5", heavyDoor: true },
+        ],
+      };
+
+      const direct = findCorridorRoute(throughFireDoor, roomA, roomB);
+      expect(direct?.heavyDoors).toEqual([{ x: 200, y: 100 }]);
+      expect(direct?.cost).toBeCloseTo(direct!.distance);
+
+      const detour = findCorridorRoute(throughFireDoor, roomA, roomB, 20, {
+        heavyDoorCostFactor: 3,
+      });
+      expect(detour?.anchors).not.toContainEqual({ x: 150, y: 110 });
+      expect(detour?.heavyDoors).toEqual([]);
+      expect(detour?.distance).toBe(40 + 200 + 40);
+    });
+
+    test("returns null when the rooms are not connected", () => {
+      expect(findCorridorRoute(graph, roomA, roomC)).toBeNull();
+    });
+
+    test("returns null for an empty graph", () => {
+      expect(
+        findCorridorRoute({ nodes: [], edges: [] }, roomA, roomB)
+      ).toBeNull();
+    });
+  });
+
+  describe("findReachableRoomIds", () => {
+    test("lists connected rooms only", () => {
+      expect(
+        findReachableRoomIds(graph, roomA, [roomA, roomB, roomC])
+      ).toEqual(["b"]);
+    });
+  });
+});
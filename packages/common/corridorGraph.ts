@@ -0,0 +1,326 @@
+// Corridor network routing: a floor's walkable nodes and edges, linked to
+// room doors, searched with Dijkstra to build anchors for any room pair.
+
+export type Position = { x: number; y: number };
+
+export interface CorridorGraphNode {
+  id: string;
+  x: number;
+  y: number;
+  // Set when the node sits at a room's door
+  roomId: string | null;
+}
+
+export interface CorridorGraphEdge {
+  fromNodeId: string;
+  toNodeId: string;
+  // The corridor passes through a heavy door
+  heavyDoor?: boolean;
+}
+
+export interface CorridorGraph {
+  nodes: CorridorGraphNode[];
+  edges: CorridorGraphEdge[];
+}
+
+export interface RoutableRoom {
+  id: string;
+  x: number;
+  y: number;
+  doorX: number;
+  doorY: number;
+}
+
+// A point a route can start or end at: a room's door or a connector
+// landing. Nodes whose roomId matches the endpoint id are its entry points.
+export interface RouteEndpoint {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface CorridorRoute {
+  anchors: Position[];
+  distance: number;
+  // Distance with heavy doors weighted; what routes are chosen by
+  cost: number;
+  // Middle of each heavy door passed, in walking order
+  heavyDoors: Position[];
+}
+
+export interface CorridorRouteOptions {
+  // Multiplier on the length of a corridor through a heavy door;
+  // 1 treats heavy doors like any other corridor
+  heavyDoorCostFactor?: number;
+}
+
+// Matches the grid used by the DrawingCanvas; doors occupy one grid cell
+export const DEFAULT_GRID_SIZE = 20;
+
+const distanceBetween = (a: Position, b: Position) =>
+  Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+
+// Centre of the room's door cell in world coordinates
+export function getRoomDoorPosition(
+  room: RoutableRoom,
+  gridSize: number = DEFAULT_GRID_SIZE
+): Position {
+  return {
+    x: room.x + room.doorX + gridSize / 2,
+    y: room.y + room.doorY + gridSize / 2,
+  };
+}
+
+export function roomEndpoint(
+  room: RoutableRoom,
+  gridSize: number = DEFAULT_GRID_SIZE
+): RouteEndpoint {
+  return { id: room.id, ...getRoomDoorPosition(room, gridSize) };
+}
+
+// Nodes a walker can step onto from the room's door: the nodes explicitly
+// linked to the room, or the closest node when none are linked
+export function getDoorNodes(
+  graph: CorridorGraph,
+  room: RoutableRoom,
+  gridSize: number = DEFAULT_GRID_SIZE
+): CorridorGraphNode[] {
+  return getEntryNodes(graph, roomEndpoint(room, gridSize));
+}
+
+function getEntryNodes(
+  graph: CorridorGraph,
+  endpoint: RouteEndpoint
+): CorridorGraphNode[] {
+  const linked = graph.nodes.filter(
+    (node) => node.roomId === endpoint.id
+  );
+  if (linked.length > 0) return linked;
+
+  const door = { x: endpoint.x, y: endpoint.y };
+  let closest: CorridorGraphNode | null = null;
+  let closestDistance = Infinity;
+  for (const node of graph.nodes) {
+    // Doors of other rooms are not corridor entry points
+    if (node.roomId) continue;
+    const distance = distanceBetween(door, node);
+    if (distance < closestDistance) {
+      closest = node;
+      closestDistance = distance;
+    }
+  }
+  return closest ? [closest] : [];
+}
+
+interface Neighbour {
+  nodeId: string;
+  weight: number;
+  heavyDoor: boolean;
+}
+
+function buildAdjacency(
+  graph: CorridorGraph,
+  options: CorridorRouteOptions = {}
+) {
+  const heavyDoorCostFactor = options.heavyDoorCostFactor ?? 1;
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const adjacency = new Map<string, Neighbour[]>();
+
+  for (const node of graph.nodes) adjacency.set(node.id, []);
+
+  for (const edge of graph.edges) {
+    const from = nodesById.get(edge.fromNodeId);
+    const to = nodesById.get(edge.toNodeId);
+    if (!from || !to) continue;
+
+    // Corridors are walkable in both directions
+    const heavyDoor = edge.heavyDoor ?? false;
+    const weight =
+      distanceBetween(from, to) * (heavyDoor ? heavyDoorCostFactor : 1);
+    adjacency.get(from.id)!.push({ nodeId: to.id, weight, heavyDoor });
+    adjacency.get(to.id)!.push({ nodeId: from.id, weight, heavyDoor });
+  }
+
+  return { nodesById, adjacency };
+}
+
+// Dijkstra from an endpoint over the corridor graph
+function shortestDistancesFrom(
+  graph: CorridorGraph,
+  start: RouteEndpoint,
+  options: CorridorRouteOptions = {}
+) {
+  const { nodesById, adjacency } = buildAdjacency(graph, options);
+  const distances = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+  // Nodes reached through a heavy door, keyed by the node after it
+  const throughHeavyDoor = new Set<string>();
+  const visited = new Set<string>();
+
+  for (const node of getEntryNodes(graph, start)) {
+    distances.set(node.id, distanceBetween(start, node));
+    previous.set(node.id, null);
+  }
+
+  while (true) {
+    let currentId: string | null = null;
+    let currentDistance = Infinity;
+    for (const [nodeId, distance] of distances) {
+      if (!visited.has(nodeId) && distance < currentDistance) {
+        currentId = nodeId;
+        currentDistance = distance;
+      }
+    }
+    if (currentId === null) break;
+    visited.add(currentId);
+
+    for (const neighbour of adjacency.get(currentId) ?? []) {
+      const candidate = currentDistance + neighbour.weight;
+      if (candidate < (distances.get(neighbour.nodeId) ?? Infinity)) {
+        distances.set(neighbour.nodeId, candidate);
+        previous.set(neighbour.nodeId, currentId);
+        if (neighbour.heavyDoor) throughHeavyDoor.add(neighbour.nodeId);
+        else throughHeavyDoor.delete(neighbour.nodeId);
+      }
+    }
+  }
+
+  return { nodesById, distances, previous, throughHeavyDoor };
+}
+
+// Drop repeated points and points lying on a straight line between their
+// neighbours so that every remaining anchor is a real turn
+export function simplifyAnchors(points: Position[]): Position[] {
+  const deduped = points.filter(
+    (point, index) =>
+      index === 0 ||
+      point.x !== points[index - 1]!.x ||
+      point.y !== points[index - 1]!.y
+  );
+
+  return deduped.filter((point, index) => {
+    if (index === 0 || index === deduped.length - 1) return true;
+    const prev = deduped[index - 1]!;
+    const next = deduped[index + 1]!;
+    const cross =
+      (point.x - prev.x) * (next.y - point.y) -
+      (point.y - prev.y) * (next.x - point.x);
+    return Math.abs(cross) > 1e-9;
+  });
+}
+
+const polylineLength = (points: Position[]) =>
+  points
+    .slice(1)
+    .reduce(
+      (total, point, index) => total + distanceBetween(points[index]!, point),
+      0
+    );
+
+// Shortest walkable route between two endpoints, or null when they are not
+// connected through the corridor graph. With a heavy door cost factor, the
+// route may be longer to pass fewer heavy doors.
+export function findEndpointRoute(
+  graph: CorridorGraph,
+  from: RouteEndpoint,
+  to: RouteEndpoint,
+  options: CorridorRouteOptions = {}
+): CorridorRoute | null {
+  if (from.id === to.id || graph.nodes.length === 0) return null;
+
+  const { nodesById, distances, previous, throughHeavyDoor } =
+    shortestDistancesFrom(graph, from, options);
+
+  let exitNodeId: string | null = null;
+  let bestDistance = Infinity;
+  for (const node of getEntryNodes(graph, to)) {
+    const distance = distances.get(node.id);
+    if (distance === undefined) continue;
+    const total = distance + distanceBetween(node, to);
+    if (total < bestDistance) {
+      exitNodeId = node.id;
+      bestDistance = total;
+    }
+  }
+  if (exitNodeId === null) return null;
+
+  const nodePoints: Position[] = [];
+  const heavyDoors: Position[] = [];
+  let cursor: string | null = exitNodeId;
+  while (cursor !== null) {
+    const node = nodesById.get(cursor)!;
+    const before: string | null = previous.get(cursor) ?? null;
+    nodePoints.unshift({ x: node.x, y: node.y });
+    if (before !== null && throughHeavyDoor.has(cursor)) {
+      const previousNode = nodesById.get(before)!;
+      heavyDoors.unshift({
+        x: (previousNode.x + node.x) / 2,
+        y: (previousNode.y + node.y) / 2,
+      });
+    }
+    cursor = before;
+  }
+
+  const points = [
+    { x: from.x, y: from.y },
+    ...nodePoints,
+    { x: to.x, y: to.y },
+  ];
+  return {
+    anchors: simplifyAnchors(points),
+    distance: polylineLength(points),
+    cost: bestDistance,
+    heavyDoors,
+  };
+}
+
+// Shortest walkable route between two rooms' doors
+export function findCorridorRoute(
+  graph: CorridorGraph,
+  fromRoom: RoutableRoom,
+  toRoom: RoutableRoom,
+  gridSize: number = DEFAULT_GRID_SIZE,
+  options: CorridorRouteOptions = {}
+): CorridorRoute | null {
+  return findEndpointRoute(
+    graph,
+    roomEndpoint(fromRoom, gridSize),
+    roomEndpoint(toRoom, gridSize),
+    options
+  );
+}
+
+// Ids of the endpoints that can be reached from the start endpoint
+export function findReachableEndpointIds(
+  graph: CorridorGraph,
+  from: RouteEndpoint,
+  endpoints: RouteEndpoint[]
+): string[] {
+  if (graph.nodes.length === 0) return [];
+
+  const { distances } = shortestDistancesFrom(graph, from);
+
+  return endpoints
+    .filter(
+      (endpoint) =>
+        endpoint.id !== from.id &&
+        getEntryNodes(graph, endpoint).some((node) =>
+          distances.has(node.id)
+        )
+    )
+    .map((endpoint) => endpoint.id);
+}
+
+// Ids of the rooms that can be reached from fromRoom through the graph
+export function findReachableRoomIds(
+  graph: CorridorGraph,
+  fromRoom: RoutableRoom,
+  rooms: RoutableRoom[],
+  gridSize: number = DEFAULT_GRID_SIZE
+): string[] {
+  return findReachableEndpointIds(
+    graph,
+    roomEndpoint(fromRoom, gridSize),
+    rooms.map((room) => roomEndpoint(room, gridSize))
+  );
+}
@@ -0,0 +1,55 @@
+import { expect, test, describe } from "vitest";
+import { buildCoverageMatrix, type CoveragePath } from "./coverage";
+import { text } from "./instructions";
+
+const rooms = [{ id: "a" }, { id: "b" }, { id: "c" }];
+
+const paths: CoveragePath[] = [
+  {
+    id: "ab",
+    fromRoomId: "a",
+    toRoomId: "b",
+    instructionSet: {
+      descriptiveInstructions: [[text("Walk forward")]],
+    },
+    instructionsStale: false,
+  },
+  {
+    id: "ba",
+    fromRoomId: "b",
+    toRoomId: "a",
+    instructionSet: null,
+    instructionsStale: false,
+  },
+];
+
+const statusOf = (
+  cells: ReturnType<typeof buildCoverageMatrix>,
+  from: string,
+  to: string
+) =>
+  cells.find((cell) => cell.fromRoomId === from && cell.toRoomId === to)
+    ?.status;
+
+describe("Coverage matrix", () => {
+  test("has one cell per ordered pair of distinct rooms", () => {
+    expect(buildCoverageMatrix(rooms, paths)).toHaveLength(6);
+  });
+
+  test("reports missing paths, missing instructions and complete pairs", () => {
+    const cells = buildCoverageMatrix(rooms, paths);
+    expect(statusOf(cells, "a", "b")).toBe("complete");
+    expect(statusOf(cells, "b", "a")).toBe("no_instructions");
+    expect(statusOf(cells, "a", "c")).toBe("missing");
+  });
+
+  test("marks instructions generated for an older path as stale", () => {
+    const cells = buildCoverageMatrix(
+      rooms,
+      paths.map((path) => ({ ...path, instructionsStale: true }))
+    );
+    expect(statusOf(cells, "a", "b")).toBe("stale");
+    // Without instructions there is nothing to be out of date
+    expect(statusOf(cells, "b", "a")).toBe("no_instructions");
+  });
+});
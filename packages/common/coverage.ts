@@ -0,0 +1,73 @@
+// Which ordered room pairs of a floor have a path, instructions, and
+// instructions that are still current.
+
+import type { Instruction } from "./instructions";
+
+export type CoverageStatus =
+  | "missing"
+  | "no_instructions"
+  | "stale"
+  | "complete";
+
+export interface CoverageRoom {
+  id: string;
+}
+
+export interface CoveragePath {
+  id: string;
+  fromRoomId: string;
+  toRoomId: string;
+  instructionSet: {
+    descriptiveInstructions: Instruction[];
+  } | null;
+  // Whether the instructions were generated from an older version of the
+  // path or its surroundings (see fingerprint.ts)
+  instructionsStale: boolean;
+}
+
+export interface CoverageCell {
+  fromRoomId: string;
+  toRoomId: string;
+  pathId: string | null;
+  hasPath: boolean;
+  hasInstructions: boolean;
+  isStale: boolean;
+  status: CoverageStatus;
+}
+
+// One cell per ordered pair of distinct rooms, in room order
+export function buildCoverageMatrix(
+  rooms: CoverageRoom[],
+  paths: CoveragePath[]
+): CoverageCell[] {
+  const pathsByPair = new Map(
+    paths.map((path) => [`${path.fromRoomId}|${path.toRoomId}`, path])
+  );
+
+  return rooms.flatMap((from) =>
+    rooms
+      .filter((to) => to.id !== from.id)
+      .map((to): CoverageCell => {
+        const path = pathsByPair.get(`${from.id}|${to.id}`);
+        const hasInstructions =
+          (path?.instructionSet?.descriptiveInstructions.length ?? 0) > 0;
+        const isStale = hasInstructions && path!.instructionsStale;
+
+        return {
+          fromRoomId: from.id,
+          toRoomId: to.id,
+          pathId: path?.id ?? null,
+          hasPath: !!path,
+          hasInstructions,
+          isStale,
+          status: !path
+            ? "missing"
+            : !hasInstructions
+            ? "no_instructions"
+            : isStale
+            ? "stale"
+            : "complete",
+        };
+      })
+  );
+}
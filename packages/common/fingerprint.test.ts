@@ -0,0 +1,80 @@
+import { expect, test, describe } from "vitest";
+import {
+  instructionFingerprint,
+  isFingerprintStale,
+  type FingerprintInput,
+} from "./fingerprint";
+
+const room = (name: string, x: number, y: number) => ({
+  name,
+  x,
+  y,
+  width: 60,
+  height: 40,
+  doorX: 0,
+  doorY: 10,
+});
+
+const monday = new Date("2025-01-06T10:00:00Z");
+const tuesday = new Date("2025-01-07T10:00:00Z");
+
+// A corridor running up the canvas past a restroom, with a store room far
+// away from it
+const input: FingerprintInput = {
+  anchors: [
+    { xCoords: 100, yCoords: 200 },
+    { xCoords: 100, yCoords: 0 },
+  ],
+  rooms: [room("Restroom", 120, 60), room("Store", 900, 900)],
+  pixelsPerMetre: null,
+  fromRoom: { name: "Library", number: "101" },
+  toRoom: { name: "Office", number: "102" },
+};
+
+describe("Instruction fingerprints", () => {
+  const saved = instructionFingerprint(input);
+
+  test("stay the same for the same inputs", () => {
+    expect(instructionFingerprint({ ...input })).toBe(saved);
+  });
+
+  test("ignore rooms the path does not pass", () => {
+    expect(
+      instructionFingerprint({
+        ...input,
+        rooms: [room("Restroom", 120, 60), room("Storage", 950, 900)],
+      })
+    ).toBe(saved);
+  });
+
+  test("change with anchors, rooms passed, end rooms and scale", () => {
+    const changed: FingerprintInput[] = [
+      {
+        ...input,
+        anchors: [
+          { xCoords: 100, yCoords: 200 },
+          { xCoords: 100, yCoords: -40 },
+        ],
+      },
+      { ...input, rooms: [room("Toilets", 120, 60)] },
+      { ...input, rooms: [room("Restroom", 120, 140)] },
+      { ...input, toRoom: { name: "Office", number: "103" } },
+      { ...input, pixelsPerMetre: 40 },
+    ];
+    for (const other of changed) {
+      expect(
+        isFingerprintStale(
+          { fingerprint: saved, updatedAt: tuesday },
+          instructionFingerprint(other),
+          monday
+        )
+      ).toBe(true);
+    }
+  });
+
+  test("falls back to room edits for sets saved without one", () => {
+    const unfingerprinted = { fingerprint: null, updatedAt: monday };
+    expect(isFingerprintStale(unfingerprinted, saved, monday)).toBe(false);
+    expect(isFingerprintStale(unfingerprinted, saved, tuesday)).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+// Fingerprints of what a path's instructions were written from: its
+// anchors, the segments computed from them with the rooms passed along the
+// way, its end rooms and the floor's scale. One is saved with every
+// generated instruction set; when the path's current fingerprint differs,
+// something the instructions describe has changed since.
+
+import {
+  calculatePathSegments,
+  calculateRelativeDirections,
+  DEFAULT_TURN_THRESHOLDS,
+  type AnchorPoint,
+  type SegmentRoom,
+  type TurnThresholds,
+} from "./navigation";
+import type { CorridorGraph } from "./corridorGraph";
+import { resolvePixelsPerMetre } from "./scale";
+
+// Bump when the inputs change shape, so every saved set reads as stale
+const FINGERPRINT_VERSION = 1;
+
+export interface FingerprintInput {
+  anchors: AnchorPoint[];
+  // Every room on the floor, for the landmarks and rooms passed
+  rooms: SegmentRoom[];
+  corridorGraph?: CorridorGraph;
+  // The floor's calibrated scale; null when it has not been calibrated
+  pixelsPerMetre: number | null;
+  // The building's turn thresholds, which decide how turns are described
+  turnThresholds?: TurnThresholds;
+  fromRoom: { name: string; number: string };
+  toRoom: { name: string; number: string };
+}
+
+// 53-bit string hash (cyrb53). Not cryptographic; it only has to change
+// when the inputs do.
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0))
+    .toString(16)
+    .padStart(14, "0");
+}
+
+export function instructionFingerprint({
+  anchors,
+  rooms,
+  corridorGraph,
+  pixelsPerMetre,
+  turnThresholds = DEFAULT_TURN_THRESHOLDS,
+  fromRoom,
+  toRoom,
+}: FingerprintInput): string {
+  const scale = resolvePixelsPerMetre(pixelsPerMetre);
+  const segments = calculateRelativeDirections(
+    calculatePathSegments(anchors, rooms, corridorGraph, scale),
+    turnThresholds
+  );
+  return `v${FINGERPRINT_VERSION}:${hashString(
+    JSON.stringify({
+      anchors: anchors.map((anchor) => [anchor.xCoords, anchor.yCoords]),
+      from: [fromRoom.name, fromRoom.number],
+      to: [toRoom.name, toRoom.number],
+      scale,
+      segments,
+    })
+  )}`;
+}
+
+export interface FingerprintedSet {
+  fingerprint: string | null;
+  updatedAt: Date;
+}
+
+// Whether a saved set was written from different inputs. Sets saved
+// without a fingerprint cannot be compared, so they count as stale once a
+// room on their floor was edited after them.
+export function isFingerprintStale(
+  saved: FingerprintedSet,
+  current: string,
+  lastRoomEdit: Date
+): boolean {
+  if (saved.fingerprint === null) {
+    return saved.updatedAt.getTime() < lastRoomEdit.getTime();
+  }
+  return saved.fingerprint !== current;
+}
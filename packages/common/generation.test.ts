@@ -0,0 +1,39 @@
+import { expect, test, describe } from "vitest";
+import {
+  EMPTY_INSTRUCTION_STREAM,
+  readInstructionStreamChunk,
+  TEMPLATE_GENERATED_BY,
+} from "./generation";
+import { steps, text } from "./instructions";
+
+const walk = [text("Walk "), steps(5.6)];
+
+describe("Instruction stream", () => {
+  test("collects steps, concise instructions and who wrote them", () => {
+    const state = [
+      { type: "start" },
+      { type: "data-concise", data: [walk] },
+      { type: "data-steps", data: [{ segmentIndex: 0, instruction: [] }] },
+      { type: "data-steps", data: [{ segmentIndex: 0, instruction: walk }] },
+      { type: "data-generated-by", data: TEMPLATE_GENERATED_BY },
+      { type: "finish" },
+    ].reduce(readInstructionStreamChunk, EMPTY_INSTRUCTION_STREAM);
+
+    expect(state).toEqual({
+      steps: [{ segmentIndex: 0, instruction: walk }],
+      conciseInstructions: [walk],
+      generatedBy: TEMPLATE_GENERATED_BY,
+    });
+  });
+
+  test("ignores data of the wrong shape", () => {
+    const state = [
+      { type: "data-steps", data: [{ segmentIndex: "0", instruction: walk }] },
+      { type: "data-concise", data: ["Walk 8 steps"] },
+      { type: "data-generated-by", data: { model: "x" } },
+      null,
+    ].reduce(readInstructionStreamChunk, EMPTY_INSTRUCTION_STREAM);
+
+    expect(state).toEqual(EMPTY_INSTRUCTION_STREAM);
+  });
+});
@@ -0,0 +1,79 @@
+// The stream the server sends while generating instructions for a path.
+// It is an AI SDK UI message stream whose data parts carry the pieces:
+//   data-concise       Instruction[], computed up front from the segments
+//   data-steps         GeneratedStep[], resent as the model writes more
+//   data-generated-by  GeneratedBy, once the instructions are complete
+// readInstructionStreamChunk folds these into an InstructionStreamState.
+
+import { isInstruction, type Instruction } from "./instructions";
+
+export interface GeneratedBy {
+  // LLM provider name, or "template" for the rule-based generator
+  provider: string;
+  model: string | null;
+}
+
+export const TEMPLATE_GENERATED_BY: GeneratedBy = {
+  provider: "template",
+  model: null,
+};
+
+// A descriptive instruction and the index of the path segment it describes
+export interface GeneratedStep {
+  segmentIndex: number;
+  instruction: Instruction;
+}
+
+export interface InstructionStreamState {
+  steps: GeneratedStep[];
+  conciseInstructions: Instruction[];
+  generatedBy: GeneratedBy | null;
+}
+
+export const EMPTY_INSTRUCTION_STREAM: InstructionStreamState = {
+  steps: [],
+  conciseInstructions: [],
+  generatedBy: null,
+};
+
+const isGeneratedStep = (value: unknown): value is GeneratedStep => {
+  if (typeof value !== "object" || value === null) return false;
+  const step = value as Record<string, unknown>;
+  return (
+    Number.isInteger(step.segmentIndex) && isInstruction(step.instruction)
+  );
+};
+
+const isGeneratedBy = (value: unknown): value is GeneratedBy => {
+  if (typeof value !== "object" || value === null) return false;
+  const generatedBy = value as Record<string, unknown>;
+  return (
+    typeof generatedBy.provider === "string" &&
+    (typeof generatedBy.model === "string" || generatedBy.model === null)
+  );
+};
+
+// Apply one chunk of the stream. Chunks of other types, and data that does
+// not have the expected shape, leave the state as it was.
+export function readInstructionStreamChunk(
+  state: InstructionStreamState,
+  chunk: unknown
+): InstructionStreamState {
+  if (typeof chunk !== "object" || chunk === null) return state;
+  const { type, data } = chunk as { type?: unknown; data?: unknown };
+
+  switch (type) {
+    case "data-steps":
+      return Array.isArray(data) && data.every(isGeneratedStep)
+        ? { ...state, steps: data }
+        : state;
+    case "data-concise":
+      return Array.isArray(data) && data.every(isInstruction)
+        ? { ...state, conciseInstructions: data }
+        : state;
+    case "data-generated-by":
+      return isGeneratedBy(data) ? { ...state, generatedBy: data } : state;
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,35 @@
+import { expect, test, describe } from "vitest";
+import {
+  countTasks,
+  isJobDone,
+  jobProgressPercent,
+  retryDelayMs,
+} from "./generationJobs";
+
+describe("Generation jobs", () => {
+  test("backs off exponentially up to five minutes", () => {
+    expect([1, 2, 3].map(retryDelayMs)).toEqual([10_000, 20_000, 40_000]);
+    expect(retryDelayMs(20)).toBe(300_000);
+  });
+
+  test("counts tasks and finishes once nothing is left to run", () => {
+    const counts = countTasks([
+      { status: "COMPLETED" },
+      { status: "FAILED" },
+      { status: "PENDING" },
+      { status: "COMPLETED" },
+    ]);
+    expect(counts).toMatchObject({
+      total: 4,
+      COMPLETED: 2,
+      FAILED: 1,
+      PENDING: 1,
+    });
+    expect(isJobDone(counts)).toBe(false);
+    expect(jobProgressPercent(counts)).toBe(75);
+
+    const done = countTasks([{ status: "COMPLETED" }, { status: "CANCELLED" }]);
+    expect(isJobDone(done)).toBe(true);
+    expect(jobProgressPercent(done)).toBe(100);
+  });
+});
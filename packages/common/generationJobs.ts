@@ -0,0 +1,53 @@
+// Background generation jobs: how many paths run at once, how failed paths
+// are retried, and how a job's progress is counted.
+
+import type { GenerationTaskStatus } from "./prisma/enums";
+
+export const DEFAULT_JOB_CONCURRENCY = 3;
+export const MAX_JOB_CONCURRENCY = 10;
+
+// Attempts per path before it is marked as failed
+export const MAX_TASK_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 10_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+
+// Wait before the next attempt after `attempts` failed ones: 10s, 20s,
+// 40s... up to five minutes
+export function retryDelayMs(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+export type GenerationTaskCounts = Record<GenerationTaskStatus, number> & {
+  total: number;
+};
+
+export function countTasks(
+  tasks: { status: GenerationTaskStatus }[]
+): GenerationTaskCounts {
+  const counts: GenerationTaskCounts = {
+    total: tasks.length,
+    PENDING: 0,
+    RUNNING: 0,
+    COMPLETED: 0,
+    FAILED: 0,
+    CANCELLED: 0,
+  };
+  for (const task of tasks) counts[task.status]++;
+  return counts;
+}
+
+// Whether no task is left to run or waiting for a retry
+export function isJobDone(counts: GenerationTaskCounts): boolean {
+  return counts.PENDING === 0 && counts.RUNNING === 0;
+}
+
+// Share of the job's paths that are finished one way or another, 0-100
+export function jobProgressPercent(counts: GenerationTaskCounts): number {
+  if (counts.total === 0) return 100;
+  const finished = counts.COMPLETED + counts.FAILED + counts.CANCELLED;
+  return Math.round((finished / counts.total) * 100);
+}
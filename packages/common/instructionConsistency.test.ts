@@ -0,0 +1,164 @@
+import { expect, test, describe } from "vitest";
+import {
+  checkInstructionConsistency,
+  describeConsistencyIssue,
+} from "./instructionConsistency";
+import { calculateRelativeDirections, type PathSegment } from "./navigation";
+import { parseInstructionText } from "./instructions";
+import { buildTemplateInstructions } from "./templateInstructions";
+import type { GeneratedStep } from "./generation";
+
+// Up the canvas past the Lab, a slight right, then a right-angle left
+const segments = calculateRelativeDirections([
+  { direction: "forward", steps: 8, metres: 5.6, nearbyRooms: [], bearing: 0 },
+  {
+    direction: "forward",
+    steps: 4,
+    metres: 2.8,
+    nearbyRooms: ["Lab"],
+    bearing: 30,
+    landmarks: [
+      {
+        name: "Lab",
+        side: "right",
+        stepsAlong: 2,
+        metresAlong: 1.4,
+        doorFacesCorridor: true,
+      },
+    ],
+  },
+  { direction: "left", steps: 3, metres: 2.1, nearbyRooms: [], bearing: 300 },
+] satisfies PathSegment[]);
+
+const step = (segmentIndex: number, text: string): GeneratedStep => ({
+  segmentIndex,
+  instruction: parseInstructionText(text),
+});
+
+const faithful = [
+  step(0, "Leave Room 101 and walk ahead {{8|5.6}} steps."),
+  step(
+    1,
+    "Bear slightly right for {{4|2.8}} steps; after {{2|1.4}} steps the Lab door is on your right."
+  ),
+  step(2, "Turn left and walk {{3|2.1}} steps."),
+  step(2, "Turn right into the Office."),
+];
+
+const check = (steps: GeneratedStep[]) =>
+  checkInstructionConsistency(steps, segments);
+
+describe("Instruction consistency", () => {
+  test("accepts steps that keep to the segments", () => {
+    expect(check(faithful)).toEqual([]);
+  });
+
+  test("accepts the template instructions", () => {
+    const { descriptiveInstructions } = buildTemplateInstructions(
+      segments,
+      { name: "Library" },
+      { name: "Office" }
+    );
+    const steps = descriptiveInstructions.map((instruction, index) => ({
+      segmentIndex: Math.min(index, segments.length - 1),
+      instruction,
+    }));
+    expect(check(steps)).toEqual([]);
+  });
+
+  test("flags changed step counts", () => {
+    expect(
+      check([
+        faithful[0]!,
+        step(1, "Bear right for {{5|3.5}} steps."),
+        faithful[2]!,
+      ])
+    ).toEqual([{ kind: "changed_distance", segmentIndex: 1, steps: 5 }]);
+  });
+
+  test("flags step counts written out and segments without a distance", () => {
+    expect(
+      check([step(0, "Walk ahead 40 steps."), ...faithful.slice(1)])
+    ).toEqual([{ kind: "changed_distance", segmentIndex: 0, steps: 40 }]);
+    expect(check([step(0, "Walk ahead."), ...faithful.slice(1)])).toEqual([
+      { kind: "missing_distance", segmentIndex: 0 },
+    ]);
+  });
+
+  test("checks the doors and openings passed", () => {
+    const counted = segments.map((segment, index) =>
+      index === 0
+        ? {
+            ...segment,
+            doorsPassed: { left: 2, right: 0 },
+            openingsPassed: { left: 0, right: 1 },
+          }
+        : segment
+    );
+    const firstStep = (text: string) =>
+      checkInstructionConsistency(
+        [step(0, text), ...faithful.slice(1)],
+        counted
+      );
+
+    expect(
+      firstStep(
+        "Walk ahead {{8|5.6}} steps, passing 2 doors on your left and one opening on your right."
+      )
+    ).toEqual([]);
+    const issues = firstStep(
+      "Walk ahead {{8|5.6}} steps, passing 3 doors on your left."
+    );
+    expect(issues).toEqual([
+      {
+        kind: "wrong_count",
+        segmentIndex: 0,
+        counted: "door",
+        side: "left",
+        expected: 2,
+        found: 3,
+      },
+      {
+        kind: "wrong_count",
+        segmentIndex: 0,
+        counted: "opening",
+        side: "right",
+        expected: 1,
+        found: null,
+      },
+    ]);
+    expect(issues.map(describeConsistencyIssue)).toEqual([
+      "segment 0: 3 doors on the left instead of 2",
+      "segment 0: leaves out 1 opening on the right",
+    ]);
+  });
+
+  test("flags turns the wrong way", () => {
+    const issues = check([
+      step(0, "Turn left and walk {{8|5.6}} steps."),
+      faithful[1]!,
+      step(2, "Turn right and walk {{3|2.1}} steps."),
+    ]);
+    expect(issues).toEqual([
+      { kind: "wrong_turn", segmentIndex: 0, expected: null, found: "left" },
+      {
+        kind: "wrong_turn",
+        segmentIndex: 2,
+        expected: "left",
+        found: "right",
+      },
+    ]);
+    expect(describeConsistencyIssue(issues[1]!)).toBe(
+      "segment 2: turns right instead of left"
+    );
+  });
+
+  test("flags dropped segments and steps for segments not on the path", () => {
+    expect(
+      check([faithful[0]!, faithful[2]!, step(4, "You have arrived.")])
+    ).toEqual([
+      { kind: "unknown_segment", segmentIndex: 4 },
+      { kind: "missing_segment", segmentIndex: 1 },
+    ]);
+  });
+});
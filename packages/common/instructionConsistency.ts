@@ -0,0 +1,245 @@
+// Checks a model's descriptive steps against the segments they were written
+// from. The model is given each segment's distances, turn, doors and
+// openings passed and landmarks and asked to copy them; these checks catch
+// the ones it changed or dropped.
+
+import type { GeneratedStep } from "./generation";
+import type { Instruction } from "./instructions";
+import type { PathSegment, SideCounts } from "./navigation";
+import { MEDIUM_STEP_METRES, metresToSteps } from "./scale";
+
+export type ConsistencyIssue =
+  // A segment no step describes
+  | { kind: "missing_segment"; segmentIndex: number }
+  // A step for a segment the path does not have
+  | { kind: "unknown_segment"; segmentIndex: number }
+  // A step for an earlier segment than the step before it
+  | { kind: "out_of_order"; segmentIndex: number }
+  | { kind: "empty_step"; segmentIndex: number }
+  // A distance that is not one of the segment's, in whole steps
+  | { kind: "changed_distance"; segmentIndex: number; steps: number }
+  // A segment that is walked along without saying how far
+  | { kind: "missing_distance"; segmentIndex: number }
+  // A count of doors or openings on one side that is not the segment's;
+  // found is null when the count was left out
+  | {
+      kind: "wrong_count";
+      segmentIndex: number;
+      counted: "door" | "opening";
+      side: "left" | "right";
+      expected: number;
+      found: number | null;
+    }
+  // A turn the other way from the segment's, or where it has none
+  | {
+      kind: "wrong_turn";
+      segmentIndex: number;
+      expected: "left" | "right" | "around" | null;
+      found: "left" | "right";
+    };
+
+// "turn left", "bear slightly right", "make a sharp left"
+const TURN_PATTERN =
+  /\b(?:turn|bear|veer|make an?)\s+(?:(?:slight|slightly|sharp|sharply|hard)\s+)?(left|right)\b/gi;
+
+// "40 steps" written out instead of as a distance token
+const STEP_COUNT_PATTERN = /\b(\d+)\s+(?:steps?|paces?)\b/gi;
+
+// "2 doors on your left", "one opening on the right"
+const PASSED_COUNT_PATTERN =
+  /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(door|opening)s?\s+on\s+(?:your|the)\s+(left|right)\b/gi;
+
+const NUMBER_WORDS = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+];
+
+const readCount = (count: string) =>
+  /^\d+$/.test(count)
+    ? Number(count)
+    : NUMBER_WORDS.indexOf(count.toLowerCase());
+
+const passedCounts = (
+  segment: PathSegment,
+  counted: "door" | "opening"
+): SideCounts | undefined =>
+  counted === "door" ? segment.doorsPassed : segment.openingsPassed;
+
+const textOf = (instruction: Instruction) =>
+  instruction
+    .map((token) => (token.type === "text" ? token.value : " "))
+    .join("");
+
+// Distances a step for this segment may state, in whole steps: its length
+// and how far along it each landmark is
+function segmentDistances(segment: PathSegment): Set<number> {
+  return new Set([
+    metresToSteps(segment.metres ?? segment.steps * MEDIUM_STEP_METRES),
+    ...(segment.landmarks ?? []).map((landmark) =>
+      metresToSteps(
+        landmark.metresAlong ?? landmark.stepsAlong * MEDIUM_STEP_METRES
+      )
+    ),
+  ]);
+}
+
+// Everything about the steps that disagrees with the segments. An empty
+// list means the steps can be saved as they are.
+export function checkInstructionConsistency(
+  steps: GeneratedStep[],
+  segments: PathSegment[]
+): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  // A path of a single anchor still gets one step
+  const segmentCount = Math.max(1, segments.length);
+  const described = new Set<number>();
+  // Segments whose steps say how far to walk, and the door and opening
+  // counts stated for each, e.g. "1:door:left"
+  const withDistance = new Set<number>();
+  const countsStated = new Set<string>();
+  let previousIndex = -1;
+
+  for (const { segmentIndex, instruction } of steps) {
+    if (segmentIndex < 0 || segmentIndex >= segmentCount) {
+      issues.push({ kind: "unknown_segment", segmentIndex });
+      continue;
+    }
+    if (segmentIndex < previousIndex) {
+      issues.push({ kind: "out_of_order", segmentIndex });
+    }
+    if (instruction.length === 0) {
+      issues.push({ kind: "empty_step", segmentIndex });
+    }
+    previousIndex = segmentIndex;
+
+    const text = textOf(instruction);
+    const segment = segments[segmentIndex];
+    if (segment) {
+      const distances = segmentDistances(segment);
+      const stated = [
+        ...instruction.flatMap((token) =>
+          token.type === "steps" ? [metresToSteps(token.metres)] : []
+        ),
+        ...[...text.matchAll(STEP_COUNT_PATTERN)].map(([, count]) =>
+          Number(count)
+        ),
+      ];
+      for (const steps of stated) {
+        if (!distances.has(steps)) {
+          issues.push({ kind: "changed_distance", segmentIndex, steps });
+        }
+      }
+      if (stated.length > 0) withDistance.add(segmentIndex);
+
+      for (const [, count, noun, side] of text.matchAll(
+        PASSED_COUNT_PATTERN
+      )) {
+        const counted = noun!.toLowerCase() as "door" | "opening";
+        const onSide = side!.toLowerCase() as "left" | "right";
+        const found = readCount(count!);
+        const expected = passedCounts(segment, counted)?.[onSide] ?? 0;
+        if (found !== expected) {
+          issues.push({
+            kind: "wrong_count",
+            segmentIndex,
+            counted,
+            side: onSide,
+            expected,
+            found,
+          });
+        }
+        countsStated.add(`${segmentIndex}:${counted}:${onSide}`);
+      }
+
+      // Only a segment's first step turns onto it; later ones, such as
+      // the arrival, may turn towards a door
+      if (!described.has(segmentIndex)) {
+        const expected = segment.turn?.direction ?? null;
+        for (const [, found] of text.matchAll(TURN_PATTERN)) {
+          const direction = found!.toLowerCase() as "left" | "right";
+          if (direction !== expected) {
+            issues.push({
+              kind: "wrong_turn",
+              segmentIndex,
+              expected,
+              found: direction,
+            });
+          }
+        }
+      }
+    }
+    described.add(segmentIndex);
+  }
+
+  for (let index = 0; index < segmentCount; index++) {
+    if (!described.has(index)) {
+      issues.push({ kind: "missing_segment", segmentIndex: index });
+      continue;
+    }
+    const segment = segments[index];
+    if (!segment) continue;
+    if (segment.steps > 0 && !withDistance.has(index)) {
+      issues.push({ kind: "missing_distance", segmentIndex: index });
+    }
+    // Travellers count doors and openings along the way, so none may be
+    // left out
+    for (const counted of ["door", "opening"] as const) {
+      for (const side of ["left", "right"] as const) {
+        const expected = passedCounts(segment, counted)?.[side] ?? 0;
+        const key = `${index}:${counted}:${side}`;
+        if (expected > 0 && !countsStated.has(key)) {
+          issues.push({
+            kind: "wrong_count",
+            segmentIndex: index,
+            counted,
+            side,
+            expected,
+            found: null,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+// One line for logs, e.g. "segment 2: turns left instead of right"
+export function describeConsistencyIssue(issue: ConsistencyIssue): string {
+  const where = `segment ${issue.segmentIndex}`;
+  switch (issue.kind) {
+    case "missing_segment":
+      return `${where}: not described`;
+    case "unknown_segment":
+      return `${where}: not on the path`;
+    case "out_of_order":
+      return `${where}: described out of order`;
+    case "empty_step":
+      return `${where}: empty step`;
+    case "changed_distance":
+      return `${where}: ${issue.steps} steps is not one of its distances`;
+    case "missing_distance":
+      return `${where}: does not say how far to walk`;
+    case "wrong_count": {
+      const counted = (count: number) =>
+        `${count} ${issue.counted}${count === 1 ? "" : "s"} on the ${
+          issue.side
+        }`;
+      return issue.found === null
+        ? `${where}: leaves out ${counted(issue.expected)}`
+        : `${where}: ${counted(issue.found)} instead of ${issue.expected}`;
+    }
+    case "wrong_turn":
+      return `${where}: turns ${issue.found} instead of ${
+        issue.expected ?? "going straight"
+      }`;
+  }
+}
@@ -0,0 +1,51 @@
+import { expect, test, describe } from "vitest";
+import { diffInstructions } from "./instructionDiff";
+import { steps, text, type Instruction } from "./instructions";
+
+const walk = (metres: number): Instruction => [
+  text("Walk ahead "),
+  steps(metres),
+  text("."),
+];
+const turnLeft: Instruction = [
+  { type: "turn", direction: "left", angle: 90 },
+  text("."),
+];
+const arrive: Instruction = [text("The office is ahead.")];
+
+const kinds = (before: Instruction[], after: Instruction[]) =>
+  diffInstructions(before, after).map((line) => line.kind);
+
+describe("diffInstructions", () => {
+  test("keeps unchanged instructions", () => {
+    expect(kinds([walk(3), arrive], [walk(3), arrive])).toEqual([
+      "same",
+      "same",
+    ]);
+  });
+
+  test("shows a changed instruction as removed then added", () => {
+    const lines = diffInstructions(
+      [walk(3), turnLeft, arrive],
+      [walk(3), turnLeft, walk(5), arrive]
+    );
+    expect(lines.map((line) => line.kind)).toEqual([
+      "same",
+      "same",
+      "added",
+      "same",
+    ]);
+    expect(lines[2]!.instruction).toEqual(walk(5));
+
+    expect(kinds([walk(3), arrive], [walk(4), arrive])).toEqual([
+      "removed",
+      "added",
+      "same",
+    ]);
+  });
+
+  test("handles versions with nothing in common", () => {
+    expect(kinds([], [walk(3)])).toEqual(["added"]);
+    expect(kinds([walk(3), arrive], [])).toEqual(["removed", "removed"]);
+  });
+});
@@ -0,0 +1,58 @@
+// Differences between two versions of a path's instructions, one
+// instruction at a time, for showing what a regeneration or edit changed.
+
+import { toPlaceholderText, type Instruction } from "./instructions";
+
+export type InstructionDiffKind = "same" | "added" | "removed";
+
+export interface InstructionDiffLine {
+  kind: InstructionDiffKind;
+  instruction: Instruction;
+}
+
+// Instructions of `before` and `after` in order, each kept, added or
+// removed, along their longest common subsequence. Instructions compare by
+// their placeholder text, so a distance counts as changed when its metres
+// do, whatever units it is later shown in.
+export function diffInstructions(
+  before: Instruction[],
+  after: Instruction[]
+): InstructionDiffLine[] {
+  const a = before.map(toPlaceholderText);
+  const b = after.map(toPlaceholderText);
+
+  // common[i][j]: length of the longest common subsequence of a[i..], b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i]![j] =
+        a[i] === b[j]
+          ? common[i + 1]![j + 1]! + 1
+          : Math.max(common[i + 1]![j]!, common[i]![j + 1]!);
+    }
+  }
+
+  const lines: InstructionDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: "same", instruction: after[j]! });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || common[i + 1]![j]! >= common[i]![j + 1]!)
+    ) {
+      // Removals come before the additions that replace them
+      lines.push({ kind: "removed", instruction: before[i]! });
+      i++;
+    } else {
+      lines.push({ kind: "added", instruction: after[j]! });
+      j++;
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,59 @@
+import { expect, test, describe } from "vitest";
+import {
+  fromEditableSteps,
+  isWarningInstruction,
+  toEditableStep,
+} from "./instructionEditing";
+import {
+  renderInstruction,
+  steps,
+  text,
+  warning,
+  type Instruction,
+} from "./instructions";
+
+const turnLeft: Instruction = [
+  { type: "turn", direction: "left", angle: 80 },
+  text(" and walk "),
+  steps(5.6),
+];
+
+describe("Instruction editing", () => {
+  test("keeps the tokens of steps that were not changed", () => {
+    expect(fromEditableSteps([toEditableStep(turnLeft)])).toEqual([
+      turnLeft,
+    ]);
+  });
+
+  test("parses changed steps, keeping distances in metres", () => {
+    const step = toEditableStep(turnLeft);
+    expect(step.text).toBe("Turn left (80°) and walk {{8|5.6}} steps");
+
+    const [edited] = fromEditableSteps([
+      { ...step, text: "Bear left and walk {{8|5.6}} steps" },
+    ]);
+    expect(edited).toEqual([text("Bear left and walk "), steps(5.6)]);
+  });
+
+  test("edits warnings as their wording", () => {
+    const caution = [warning("The door is heavy.")];
+    expect(isWarningInstruction(caution)).toBe(true);
+    expect(isWarningInstruction(turnLeft)).toBe(false);
+    expect(toEditableStep(caution)).toMatchObject({
+      text: "The door is heavy.",
+      isWarning: true,
+    });
+
+    const [added] = fromEditableSteps([
+      { text: " Mind the step. ", isWarning: true },
+    ]);
+    expect(added).toEqual([warning("Mind the step.")]);
+    expect(renderInstruction(added!)).toBe("Caution: Mind the step.");
+  });
+
+  test("leaves out cleared steps", () => {
+    expect(
+      fromEditableSteps([{ ...toEditableStep(turnLeft), text: "  " }])
+    ).toEqual([]);
+  });
+});
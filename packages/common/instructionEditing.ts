@@ -0,0 +1,56 @@
+// Instructions as text an editor can change, and back. Distances are
+// edited as {{steps|metres}} placeholders so they keep their length in
+// metres; a warning is a step of its own, edited as its plain wording.
+
+import {
+  parseInstructionText,
+  toPlaceholderText,
+  warning,
+  type Instruction,
+} from "./instructions";
+
+export interface EditableStep {
+  text: string;
+  isWarning: boolean;
+  // The stored instruction the step was made from; unset for new steps
+  original?: Instruction;
+}
+
+export function isWarningInstruction(instruction: Instruction): boolean {
+  return instruction.length === 1 && instruction[0]!.type === "warning";
+}
+
+export function toEditableStep(instruction: Instruction): EditableStep {
+  const [first] = instruction;
+  return first?.type === "warning" && instruction.length === 1
+    ? { text: first.value, isWarning: true, original: instruction }
+    : {
+        text: toPlaceholderText(instruction),
+        isWarning: false,
+        original: instruction,
+      };
+}
+
+// The instruction an edited step stands for. Steps whose text was not
+// changed keep their original tokens, so turns and landmarks stay
+// structured and can still be rendered in other languages.
+export function fromEditableStep(step: EditableStep): Instruction {
+  if (step.original) {
+    const unchanged = toEditableStep(step.original);
+    if (
+      unchanged.text === step.text &&
+      unchanged.isWarning === step.isWarning
+    ) {
+      return step.original;
+    }
+  }
+  const value = step.text.trim();
+  return step.isWarning ? [warning(value)] : parseInstructionText(value);
+}
+
+// Edited steps as instructions, leaving out steps cleared to nothing
+export function fromEditableSteps(steps: EditableStep[]): Instruction[] {
+  return steps
+    .filter((step) => step.text.trim() !== "")
+    .map(fromEditableStep);
+}
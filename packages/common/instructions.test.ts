@@ -0,0 +1,77 @@
+import { expect, test, describe } from "vitest";
+import {
+  parseInstructionText,
+  renderInstruction,
+  steps,
+  text,
+  toInstructions,
+  toPlaceholderText,
+  type Instruction,
+} from "./instructions";
+import { resolveStrideMetres } from "./stride";
+
+const instruction: Instruction = [
+  { type: "turn", direction: "left", degree: "slight", angle: 35 },
+  text(" and move forward "),
+  steps(5.6),
+  text("; after "),
+  steps(2.1),
+  text(", "),
+  { type: "landmark", name: "Lab", side: "right", door: true },
+];
+
+describe("Instruction tokens", () => {
+  test("renders turns, landmarks and distances for a walker", () => {
+    expect(renderInstruction(instruction)).toBe(
+      "Bear slightly left (35°) and move forward 8 steps; after 3 steps, the Lab door is on your right"
+    );
+    expect(renderInstruction(instruction, { strideMetres: 0.35 })).toBe(
+      "Bear slightly left (35°) and move forward 16 steps; after 6 steps, the Lab door is on your right"
+    );
+  });
+
+  test("renders distances in metres or feet", () => {
+    const walk = [text("Walk "), steps(5.6)];
+    expect(renderInstruction(walk, { unit: "METRES" })).toBe("Walk 5.6 m");
+    expect(renderInstruction(walk, { unit: "FEET" })).toBe("Walk 18 ft");
+  });
+
+  test("keeps the old step size multipliers", () => {
+    const small = resolveStrideMetres({ stepSize: "SMALL" });
+    expect(
+      renderInstruction(parseInstructionText("Walk {{10}} steps"), {
+        strideMetres: small,
+      })
+    ).toBe("Walk 14 steps");
+  });
+
+  test("parses every placeholder in legacy text", () => {
+    expect(
+      parseInstructionText("Go {{8}} steps, then {{3|2.5}} steps {left}")
+    ).toEqual([
+      text("Go "),
+      { type: "steps", metres: 8 * 0.7 },
+      text(", then "),
+      steps(2.5),
+      text(" left"),
+    ]);
+    expect(parseInstructionText("Take {{4}} paces")).toMatchObject([
+      text("Take "),
+      { type: "steps", bare: true },
+      text(" paces"),
+    ]);
+  });
+
+  test("round-trips through placeholder text", () => {
+    const walk = [text("Move forward "), steps(5.6)];
+    expect(toPlaceholderText(walk)).toBe("Move forward {{8|5.6}} steps");
+    expect(parseInstructionText(toPlaceholderText(walk))).toEqual(walk);
+  });
+
+  test("drops malformed stored instructions", () => {
+    expect(
+      toInstructions([instruction, [{ type: "bogus" }], "Walk", null])
+    ).toEqual([instruction]);
+    expect(toInstructions(null)).toEqual([]);
+  });
+});
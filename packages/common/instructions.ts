@@ -0,0 +1,200 @@
+// Instructions as typed tokens instead of strings with {{n}} placeholders.
+// Stored instruction sets hold Instruction[]; every page renders them with
+// renderInstruction, which applies the walker's stride, the distance unit
+// and the language in one place.
+
+import type { DistanceUnit } from "./prisma/enums";
+import { MEDIUM_STEP_METRES } from "./scale";
+import {
+  DISTANCE_PLACEHOLDER,
+  distancePlaceholder,
+  formatDistance,
+  placeholderMetres,
+} from "./units";
+
+export type InstructionToken =
+  | { type: "text"; value: string }
+  // A distance to walk, shown as steps, metres or feet. `bare` distances
+  // were written without a following "steps" and render as the number only.
+  | { type: "steps"; metres: number; bare?: boolean }
+  | {
+      type: "turn";
+      direction: "left" | "right" | "around";
+      degree?: "slight" | "sharp";
+      // Stated for turns other than a right angle
+      angle?: number;
+    }
+  | {
+      type: "landmark";
+      name: string;
+      side: "left" | "right";
+      // Whether it is the room's door, rather than the room, that is passed
+      door: boolean;
+    }
+  // A caution added by an editor, such as a step or a heavy door
+  | { type: "warning"; value: string };
+
+export type Instruction = InstructionToken[];
+
+export type InstructionLanguage = "en";
+
+export const DEFAULT_INSTRUCTION_LANGUAGE: InstructionLanguage = "en";
+
+export interface RenderOptions {
+  strideMetres?: number;
+  unit?: DistanceUnit;
+  language?: InstructionLanguage;
+}
+
+type TurnToken = Extract<InstructionToken, { type: "turn" }>;
+type LandmarkToken = Extract<InstructionToken, { type: "landmark" }>;
+type WarningToken = Extract<InstructionToken, { type: "warning" }>;
+
+// Wording of the structured tokens in each language
+const PHRASES: Record<
+  InstructionLanguage,
+  {
+    steps: (count: number) => string;
+    turn: (token: TurnToken) => string;
+    landmark: (token: LandmarkToken) => string;
+    warning: (token: WarningToken) => string;
+  }
+> = {
+  en: {
+    steps: (count) => `${count} ${count === 1 ? "step" : "steps"}`,
+    // "Bear slightly left (35°)", "Turn right", "Make a sharp right (130°)"
+    turn: (token) => {
+      if (token.direction === "around") return "Turn around";
+      const words =
+        token.degree === "slight"
+          ? `Bear slightly ${token.direction}`
+          : token.degree === "sharp"
+          ? `Make a sharp ${token.direction}`
+          : `Turn ${token.direction}`;
+      return token.angle !== undefined ? `${words} (${token.angle}°)` : words;
+    },
+    landmark: (token) =>
+      token.door
+        ? `the ${token.name} door is on your ${token.side}`
+        : `${token.name} is on your ${token.side}`,
+    warning: (token) => `Caution: ${token.value}`,
+  },
+};
+
+export const text = (value: string): InstructionToken => ({
+  type: "text",
+  value,
+});
+
+export const steps = (metres: number): InstructionToken => ({
+  type: "steps",
+  metres,
+});
+
+export const warning = (value: string): InstructionToken => ({
+  type: "warning",
+  value,
+});
+
+export function renderToken(
+  token: InstructionToken,
+  {
+    strideMetres = MEDIUM_STEP_METRES,
+    unit = "STEPS",
+    language = DEFAULT_INSTRUCTION_LANGUAGE,
+  }: RenderOptions = {}
+): string {
+  const phrases = PHRASES[language];
+  switch (token.type) {
+    case "text":
+      return token.value;
+    case "steps": {
+      if (unit !== "STEPS") {
+        return formatDistance(token.metres, unit, strideMetres);
+      }
+      const count = Math.round(token.metres / strideMetres);
+      return token.bare ? count.toString() : phrases.steps(count);
+    }
+    case "turn":
+      return phrases.turn(token);
+    case "landmark":
+      return phrases.landmark(token);
+    case "warning":
+      return phrases.warning(token);
+  }
+}
+
+export function renderInstruction(
+  instruction: Instruction,
+  options: RenderOptions = {}
+): string {
+  return instruction.map((token) => renderToken(token, options)).join("");
+}
+
+// Text form with {{steps|metres}} placeholders, for prompts and for text
+// that is parsed back with parseInstructionText
+export function toPlaceholderText(instruction: Instruction): string {
+  return instruction
+    .map((token) =>
+      token.type === "steps"
+        ? `${distancePlaceholder(token.metres)}${token.bare ? "" : " steps"}`
+        : renderToken(token)
+    )
+    .join("");
+}
+
+// Tokens from text with {{n}} or {{n|metres}} placeholders, such as LLM
+// output or instructions saved before they were tokenised
+export function parseInstructionText(value: string): Instruction {
+  const tokens: Instruction = [];
+  const pushText = (part: string) => {
+    // Braces outside a placeholder are stray; drop them
+    const cleaned = part.replace(/[{}]/g, "");
+    if (cleaned) tokens.push(text(cleaned));
+  };
+
+  let last = 0;
+  for (const match of value.matchAll(DISTANCE_PLACEHOLDER)) {
+    pushText(value.slice(last, match.index));
+    const [whole, count, metres, stepsWord] = match;
+    tokens.push({
+      type: "steps",
+      metres: placeholderMetres(count!, metres),
+      ...(stepsWord ? {} : { bare: true }),
+    });
+    last = match.index! + whole.length;
+  }
+  pushText(value.slice(last));
+  return tokens;
+}
+
+const isToken = (value: unknown): value is InstructionToken => {
+  if (typeof value !== "object" || value === null) return false;
+  const token = value as Record<string, unknown>;
+  switch (token.type) {
+    case "text":
+      return typeof token.value === "string";
+    case "steps":
+      return typeof token.metres === "number";
+    case "turn":
+      return ["left", "right", "around"].includes(token.direction as string);
+    case "landmark":
+      return (
+        typeof token.name === "string" &&
+        (token.side === "left" || token.side === "right")
+      );
+    case "warning":
+      return typeof token.value === "string";
+    default:
+      return false;
+  }
+};
+
+export function isInstruction(value: unknown): value is Instruction {
+  return Array.isArray(value) && value.every(isToken);
+}
+
+// Instructions read from a JSON column; anything malformed is dropped
+export function toInstructions(value: unknown): Instruction[] {
+  return Array.isArray(value) ? value.filter(isInstruction) : [];
+}
@@ -0,0 +1,162 @@
+import { expect, test, describe } from "vitest";
+import {
+  findReachableTargetIds,
+  planBuildingRoute,
+  type ConnectorLink,
+  type FloorRoutingData,
+  type RouteTarget,
+} from "./buildingRoute";
+import { getLegWarnings, getRouteOptionsForProfile } from "./mobility";
+
+// A long corridor on two floors: stairs next to both rooms, an elevator
+// far down the corridor
+const corridor = (floorId: string, level: number): FloorRoutingData => ({
+  floorId,
+  level,
+  graph: {
+    nodes: [
+      { id: `${floorId}-west`, x: 0, y: 0, roomId: null },
+      { id: `${floorId}-east`, x: 1000, y: 0, roomId: null },
+    ],
+    edges: [{ fromNodeId: `${floorId}-west`, toNodeId: `${floorId}-east` }],
+  },
+});
+const floors = [corridor("ground", 1), corridor("upper", 2)];
+
+const stairs: ConnectorLink = {
+  id: "stairs",
+  type: "STAIRS",
+  name: "",
+  fromFloorId: "ground",
+  fromX: 0,
+  fromY: 0,
+  toFloorId: "upper",
+  toX: 0,
+  toY: 0,
+};
+const elevator: ConnectorLink = {
+  ...stairs,
+  id: "elevator",
+  type: "ELEVATOR",
+  fromX: 1000,
+  toX: 1000,
+};
+
+const from: RouteTarget = {
+  floorId: "ground",
+  endpoint: { id: "lab", x: 20, y: 0 },
+};
+const to: RouteTarget = {
+  floorId: "upper",
+  endpoint: { id: "office", x: 20, y: 0 },
+};
+
+const connectorUsed = (
+  route: ReturnType<typeof planBuildingRoute>
+): string | undefined => {
+  const leg = route?.legs.find((leg) => leg.kind === "connector");
+  return leg?.kind === "connector" ? leg.connector.id : undefined;
+};
+
+describe("Mobility profiles", () => {
+  test("shortest takes the nearby stairs", () => {
+    const route = planBuildingRoute(
+      floors,
+      [stairs, elevator],
+      from,
+      to,
+      getRouteOptionsForProfile("SHORTEST")
+    );
+    expect(connectorUsed(route)).toBe("stairs");
+  });
+
+  test("avoid stairs walks to the elevator", () => {
+    const route = planBuildingRoute(
+      floors,
+      [stairs, elevator],
+      from,
+      to,
+      getRouteOptionsForProfile("AVOID_STAIRS")
+    );
+    expect(connectorUsed(route)).toBe("elevator");
+  });
+
+  test("avoid stairs still uses stairs when nothing else connects", () => {
+    const route = planBuildingRoute(
+      floors,
+      [stairs],
+      from,
+      to,
+      getRouteOptionsForProfile("AVOID_STAIRS")
+    );
+    expect(connectorUsed(route)).toBe("stairs");
+  });
+
+  test("step-free never uses stairs", () => {
+    const options = getRouteOptionsForProfile("STEP_FREE");
+    expect(planBuildingRoute(floors, [stairs], from, to, options)).toBeNull();
+    expect(
+      findReachableTargetIds(floors, [stairs], from, [to], options)
+    ).toEqual([]);
+  });
+
+  test("cane and guide dog routes detour around heavy doors", () => {
+    // A fire door on the short way along the lower floor
+    const withFireDoor: FloorRoutingData = {
+      floorId: "ground",
+      level: 1,
+      graph: {
+        nodes: [
+          { id: "lab-door", x: 20, y: 0, roomId: "lab" },
+          { id: "shop-door", x: 220, y: 0, roomId: "shop" },
+          { id: "bend", x: 120, y: 100, roomId: null },
+        ],
+        edges: [
+          { fromNodeId: "lab-door", toNodeId: "shop-door", heavyDoor: true },
+          { fromNodeId: "lab-door", toNodeId: "bend" },
+          { fromNodeId: "bend", toNodeId: "shop-door" },
+        ],
+      },
+    };
+    const shop: RouteTarget = {
+      floorId: "ground",
+      endpoint: { id: "shop", x: 220, y: 0 },
+    };
+    const doorsPassed = (profile: "SHORTEST" | "CANE" | "GUIDE_DOG") => {
+      const route = planBuildingRoute(
+        [withFireDoor],
+        [],
+        from,
+        shop,
+        getRouteOptionsForProfile(profile)
+      );
+      const leg = route?.legs[0];
+      return leg?.kind === "walk" ? leg.heavyDoors.length : undefined;
+    };
+
+    expect(doorsPassed("SHORTEST")).toBe(1);
+    expect(doorsPassed("CANE")).toBe(0);
+    expect(doorsPassed("GUIDE_DOG")).toBe(0);
+  });
+
+  test("profiles add warnings before stairs and heavy doors", () => {
+    const route = planBuildingRoute(
+      floors,
+      [stairs],
+      from,
+      to,
+      getRouteOptionsForProfile("CANE")
+    )!;
+    const [walk, connector] = route.legs;
+    const doorWalk = { ...walk!, heavyDoors: [{ x: 10, y: 0 }] };
+
+    expect(getLegWarnings(connector!, "CANE")).toEqual([
+      "Find the handrail before the first step",
+    ]);
+    expect(getLegWarnings(connector!, "SHORTEST")).toEqual([]);
+    expect(getLegWarnings(doorWalk, "STEP_FREE")).toEqual([
+      "This part of the route passes through a heavy door",
+    ]);
+    expect(getLegWarnings(doorWalk, "AVOID_STAIRS")).toEqual([]);
+  });
+});
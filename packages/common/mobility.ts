@@ -0,0 +1,116 @@
+// Mobility profiles decide which connectors a route may use, how much each
+// one and each heavy door is worth avoiding, and which warnings the route's
+// instructions carry.
+
+import {
+  DEFAULT_CONNECTOR_METRES_PER_LEVEL,
+  type BuildingRouteOptions,
+  type ConnectorKind,
+  type RouteLeg,
+} from "./buildingRoute";
+
+export type MobilityProfileName =
+  | "SHORTEST"
+  | "AVOID_STAIRS"
+  | "STEP_FREE"
+  | "CANE"
+  | "GUIDE_DOG";
+
+export const DEFAULT_MOBILITY_PROFILE: MobilityProfileName = "SHORTEST";
+
+export const MOBILITY_PROFILE_LABELS: Record<MobilityProfileName, string> = {
+  SHORTEST: "Shortest route",
+  AVOID_STAIRS: "Avoid stairs",
+  STEP_FREE: "Step-free",
+  CANE: "White cane",
+  GUIDE_DOG: "Guide dog",
+};
+
+interface MobilityProfileRules {
+  // Multiplier on the default per-level cost; Infinity rules a connector out
+  connectorCostFactors: Record<ConnectorKind, number>;
+  // Multiplier on the length of a corridor through a heavy door
+  heavyDoorCostFactor: number;
+  // Whether instructions warn before heavy doors
+  warnsOfHeavyDoors: boolean;
+  // Whether instructions say how to use stairs, elevators and ramps
+  warnsOfConnectors: boolean;
+}
+
+const PROFILE_RULES: Record<MobilityProfileName, MobilityProfileRules> = {
+  SHORTEST: {
+    connectorCostFactors: { STAIRS: 1, ELEVATOR: 1, RAMP: 1 },
+    heavyDoorCostFactor: 1,
+    warnsOfHeavyDoors: false,
+    warnsOfConnectors: false,
+  },
+  // A long detour is still preferred over a flight of stairs
+  AVOID_STAIRS: {
+    connectorCostFactors: { STAIRS: 25, ELEVATOR: 1, RAMP: 1 },
+    heavyDoorCostFactor: 1,
+    warnsOfHeavyDoors: false,
+    warnsOfConnectors: false,
+  },
+  // A heavy door is worth a detour of several times its corridor's length
+  STEP_FREE: {
+    connectorCostFactors: { STAIRS: Infinity, ELEVATOR: 1, RAMP: 1 },
+    heavyDoorCostFactor: 5,
+    warnsOfHeavyDoors: true,
+    warnsOfConnectors: false,
+  },
+  // A cane finds the edge of each step, so stairs are fine
+  CANE: {
+    connectorCostFactors: { STAIRS: 1, ELEVATOR: 1, RAMP: 1 },
+    heavyDoorCostFactor: 3,
+    warnsOfHeavyDoors: true,
+    warnsOfConnectors: true,
+  },
+  // The harness hand is busy, so heavy doors and stairs are both worth a
+  // short detour
+  GUIDE_DOG: {
+    connectorCostFactors: { STAIRS: 3, ELEVATOR: 1, RAMP: 1 },
+    heavyDoorCostFactor: 3,
+    warnsOfHeavyDoors: true,
+    warnsOfConnectors: true,
+  },
+};
+
+export function getRouteOptionsForProfile(
+  profile: MobilityProfileName
+): BuildingRouteOptions {
+  const rules = PROFILE_RULES[profile];
+  return {
+    connectorCost: (connector, levels) =>
+      rules.connectorCostFactors[connector.type] *
+      levels *
+      DEFAULT_CONNECTOR_METRES_PER_LEVEL,
+    corridor: { heavyDoorCostFactor: rules.heavyDoorCostFactor },
+  };
+}
+
+const CONNECTOR_WARNINGS: Record<ConnectorKind, string> = {
+  STAIRS: "Find the handrail before the first step",
+  ELEVATOR: "Listen for the level to be announced before stepping out",
+  RAMP: "The ramp slopes; keep to the handrail side",
+};
+
+// Warnings the profile adds before a leg of a route, e.g. the heavy doors
+// a walk passes through
+export function getLegWarnings(
+  leg: RouteLeg,
+  profile: MobilityProfileName
+): string[] {
+  const rules = PROFILE_RULES[profile];
+  if (leg.kind === "connector") {
+    return rules.warnsOfConnectors
+      ? [CONNECTOR_WARNINGS[leg.connector.type]]
+      : [];
+  }
+  const doors = leg.heavyDoors.length;
+  if (!rules.warnsOfHeavyDoors || doors === 0) return [];
+  return [
+    doors === 1
+      ? "This part of the route passes through a heavy door"
+      : `This part of the route passes through ${doors} heavy doors`,
+  ];
+}
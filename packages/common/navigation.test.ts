@@ -0,0 +1,213 @@
+import { expect, test, describe } from "vitest";
+import type { PathAnchor } from "./prisma/client";
+import {
+  areTurnThresholdsOrdered,
+  buildConciseInstructions,
+  calculatePathSegments,
+  calculateRelativeDirections,
+  DEFAULT_TURN_THRESHOLDS,
+  describeTurn,
+  getBearing,
+  getTurnAngle,
+  turnThresholdsFromSettings,
+} from "./navigation";
+import { toPlaceholderText } from "./instructions";
+
+const anchorsAt = (...points: [number, number][]): PathAnchor[] =>
+  points.map(([x, y], index) => ({
+    id: String(index),
+    pathId: "path",
+    index,
+    xCoords: x,
+    yCoords: y,
+  }));
+
+const turnsAlong = (...points: [number, number][]) =>
+  calculateRelativeDirections(calculatePathSegments(anchorsAt(...points), []));
+
+describe("Turn angles", () => {
+  test("measures bearings clockwise from up the canvas", () => {
+    expect(getBearing({ x: 0, y: 0 }, { x: 0, y: -10 })).toBe(0);
+    expect(getBearing({ x: 0, y: 0 }, { x: 10, y: -10 })).toBe(45);
+    expect(getBearing({ x: 0, y: 0 }, { x: -10, y: 0 })).toBe(270);
+  });
+
+  test("signs turns across the 0° boundary", () => {
+    expect(getTurnAngle(350, 20)).toBe(30);
+    expect(getTurnAngle(20, 350)).toBe(-30);
+    expect(getTurnAngle(0, 180)).toBe(180);
+  });
+
+  test("names turns using the thresholds", () => {
+    expect(describeTurn(10)).toBeNull();
+    expect(describeTurn(-45)).toBe("Bear slightly left");
+    expect(describeTurn(90)).toBe("Turn right");
+    expect(describeTurn(135)).toBe("Make a sharp right");
+    expect(describeTurn(-170)).toBe("Turn around");
+    expect(
+      describeTurn(45, { straight: 20, slight: 30, sharp: 40, turnAround: 160 })
+    ).toBe("Make a sharp right");
+  });
+
+  test("reads a building's turn thresholds and checks their order", () => {
+    const thresholds = turnThresholdsFromSettings({
+      straightTurnDegrees: 15,
+      slightTurnDegrees: 50,
+      sharpTurnDegrees: 130,
+      turnAroundDegrees: 170,
+    });
+    expect(thresholds).toEqual({
+      straight: 15,
+      slight: 50,
+      sharp: 130,
+      turnAround: 170,
+    });
+    expect(areTurnThresholdsOrdered(thresholds)).toBe(true);
+    expect(areTurnThresholdsOrdered(DEFAULT_TURN_THRESHOLDS)).toBe(true);
+    expect(
+      areTurnThresholdsOrdered({ ...thresholds, sharp: 40 })
+    ).toBe(false);
+    expect(
+      areTurnThresholdsOrdered({ ...thresholds, turnAround: 190 })
+    ).toBe(false);
+  });
+
+  test("describes diagonal corners and reversals along a path", () => {
+    const segments = turnsAlong([0, 0], [0, -100], [40, -200], [0, -100]);
+    expect(segments.map((s) => s.relativeDirection)).toEqual([
+      "Move forward",
+      "Bear slightly right and move forward",
+      "Turn around and move forward",
+    ]);
+    expect(segments[1]?.turnAngle).toBe(22);
+  });
+
+  test("carries the angle of non-square turns into concise instructions", () => {
+    const segments = turnsAlong([0, 0], [0, -100], [100, -100], [0, -200]);
+    expect(
+      buildConciseInstructions(segments).map(toPlaceholderText)
+    ).toEqual([
+      "Move forward {{5|3.5}} steps",
+      "Turn right and move forward {{5|3.5}} steps",
+      "Make a sharp left (135°) and move forward {{7|4.9}} steps",
+    ]);
+  });
+});
+
+describe("Landmarks", () => {
+  // A corridor running up the canvas from (100, 200) to (100, 0), with a
+  // restroom on the right whose door opens onto it and a library on the
+  // left whose door faces away
+  const restroom = {
+    name: "Restroom",
+    x: 120,
+    y: 60,
+    width: 60,
+    height: 40,
+    doorX: 0,
+    doorY: 10,
+  };
+  const library = {
+    name: "Library",
+    x: 20,
+    y: 140,
+    width: 60,
+    height: 40,
+    doorX: 0,
+    doorY: 20,
+  };
+
+  test("reports side, position along the segment and door orientation", () => {
+    const [segment] = calculatePathSegments(anchorsAt([100, 200], [100, 0]), [
+      restroom,
+      library,
+    ]);
+    expect(segment?.landmarks).toEqual([
+      {
+        name: "Library",
+        side: "left",
+        stepsAlong: 2,
+        metresAlong: expect.closeTo(1.4),
+        doorFacesCorridor: false,
+      },
+      {
+        name: "Restroom",
+        side: "right",
+        stepsAlong: 6,
+        metresAlong: expect.closeTo(4.2),
+        doorFacesCorridor: true,
+      },
+    ]);
+  });
+
+  test("mentions landmarks in the concise instructions", () => {
+    const segments = calculateRelativeDirections(
+      calculatePathSegments(anchorsAt([100, 200], [100, 0]), [restroom])
+    );
+    expect(
+      buildConciseInstructions(segments).map(toPlaceholderText)
+    ).toEqual([
+      "Move forward {{10|7}} steps, passing 1 door on your right; after {{6|4.2}} steps, the Restroom door is on your right",
+    ]);
+  });
+});
+
+describe("Counting doors and openings", () => {
+  // A corridor running right along y = 100 with a side corridor branching
+  // up at x = 100 and a four-way crossing at x = 200
+  const graph = {
+    nodes: [
+      { id: "a", x: 0, y: 100, roomId: null },
+      { id: "b", x: 100, y: 100, roomId: null },
+      { id: "c", x: 200, y: 100, roomId: null },
+      { id: "d", x: 300, y: 100, roomId: null },
+      { id: "up1", x: 100, y: 0, roomId: null },
+      { id: "up2", x: 200, y: 0, roomId: null },
+      { id: "down2", x: 200, y: 200, roomId: null },
+    ],
+    edges: [
+      { fromNodeId: "a", toNodeId: "b" },
+      { fromNodeId: "b", toNodeId: "c" },
+      { fromNodeId: "c", toNodeId: "d" },
+      { fromNodeId: "b", toNodeId: "up1" },
+      { fromNodeId: "c", toNodeId: "up2" },
+      { fromNodeId: "down2", toNodeId: "c" },
+    ],
+  };
+  // Doors in the corridor walls: two above it, one below
+  const room = (name: string, x: number, y: number, doorY: number) => ({
+    name,
+    x,
+    y,
+    width: 40,
+    height: 40,
+    doorX: 0,
+    doorY,
+  });
+  const rooms = [
+    room("Office 1", 30, 50, 20),
+    room("Office 2", 230, 50, 20),
+    room("Lab", 130, 110, 0),
+  ];
+
+  test("counts doors and junction branches on each side", () => {
+    const [segment] = calculatePathSegments(
+      anchorsAt([0, 100], [300, 100]),
+      rooms,
+      graph
+    );
+    expect(segment?.doorsPassed).toEqual({ left: 2, right: 1 });
+    expect(segment?.openingsPassed).toEqual({ left: 2, right: 1 });
+  });
+
+  test("includes the counts in the concise instructions", () => {
+    const segments = calculateRelativeDirections(
+      calculatePathSegments(anchorsAt([0, 100], [300, 100]), [], graph)
+    );
+    expect(
+      buildConciseInstructions(segments).map(toPlaceholderText)
+    ).toEqual([
+      "Move forward {{15|10.5}} steps, passing 2 openings on your left and 1 opening on your right",
+    ]);
+  });
+});
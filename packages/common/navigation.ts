@@ -0,0 +1,632 @@
+import type { PathAnchor, Room } from "./prisma/client";
+import type { CorridorGraph } from "./corridorGraph";
+import {
+  CORRIDOR_NODE_TOLERANCE_METRES,
+  DEFAULT_PIXELS_PER_METRE,
+  DOOR_PASS_RADIUS_METRES,
+  NEARBY_ROOM_RADIUS_METRES,
+  MEDIUM_STEP_METRES,
+  metresToSteps,
+  pixelsToMetres,
+} from "./scale";
+import {
+  renderToken,
+  steps as stepsToken,
+  text,
+  type Instruction,
+  type InstructionToken,
+} from "./instructions";
+
+// Only the coordinates of an anchor matter for segment math, so routes that
+// were never persisted (e.g. computed from the corridor graph) can be passed too
+export type AnchorPoint = Pick<PathAnchor, "xCoords" | "yCoords">;
+export type SegmentRoom = Pick<
+  Room,
+  "name" | "x" | "y" | "width" | "height" | "doorX" | "doorY"
+>;
+
+// A room passed along a segment, as the walker experiences it
+export interface SegmentLandmark {
+  name: string;
+  side: "left" | "right";
+  // Steps from the start of the segment until the room (or its door) is
+  // level with the walker
+  stepsAlong: number;
+  metresAlong?: number;
+  // Whether the room's door is in the wall that faces the segment
+  doorFacesCorridor: boolean;
+}
+
+// Types
+export interface PathSegment {
+  direction: "forward" | "left" | "right" | "backwards";
+  steps: number;
+  // Real length of the segment, from the floor's calibrated scale
+  metres?: number;
+  nearbyRooms: string[];
+  // The nearby rooms in the order they are passed
+  landmarks?: SegmentLandmark[];
+  // Room doors and corridor openings passed on each side before the
+  // segment ends, for travellers who navigate by counting them
+  doorsPassed?: SideCounts;
+  openingsPassed?: SideCounts;
+  // True heading in degrees clockwise from "forward" (up on the canvas)
+  bearing?: number;
+  relativeDirection?: string;
+  facingDirection?: "forward" | "left" | "right" | "backwards";
+  // Signed turn made before walking this segment; positive is to the right
+  turnAngle?: number;
+  // How that turn is described, or null when the walker keeps going
+  turn?: Turn | null;
+}
+
+export interface Turn {
+  direction: "left" | "right" | "around";
+  degree?: "slight" | "sharp";
+}
+
+export interface SideCounts {
+  left: number;
+  right: number;
+}
+
+// Boundaries, in degrees of absolute turn angle, between the kinds of turn
+export interface TurnThresholds {
+  // Below this the walker just keeps going
+  straight: number;
+  // Up to this the turn is "slight"
+  slight: number;
+  // From this on the turn is "sharp"
+  sharp: number;
+  // From this on the walker turns around
+  turnAround: number;
+}
+
+export const DEFAULT_TURN_THRESHOLDS: TurnThresholds = {
+  straight: 20,
+  slight: 60,
+  sharp: 120,
+  turnAround: 160,
+};
+
+// How a building stores its turn thresholds
+export interface TurnThresholdSettings {
+  straightTurnDegrees: number;
+  slightTurnDegrees: number;
+  sharpTurnDegrees: number;
+  turnAroundDegrees: number;
+}
+
+export function turnThresholdsFromSettings(
+  settings: TurnThresholdSettings
+): TurnThresholds {
+  return {
+    straight: settings.straightTurnDegrees,
+    slight: settings.slightTurnDegrees,
+    sharp: settings.sharpTurnDegrees,
+    turnAround: settings.turnAroundDegrees,
+  };
+}
+
+// Whether each threshold is above the one before, within a half turn
+export function areTurnThresholdsOrdered({
+  straight,
+  slight,
+  sharp,
+  turnAround,
+}: TurnThresholds): boolean {
+  return (
+    0 <= straight &&
+    straight < slight &&
+    slight < sharp &&
+    sharp < turnAround &&
+    turnAround <= 180
+  );
+}
+
+// Helper functions
+export function getDirection(
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): "forward" | "backwards" | "left" | "right" {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? "right" : "left";
+  } else {
+    return dy < 0 ? "forward" : "backwards";
+  }
+}
+
+// Convert direction to angle in degrees (0 = forward, 90 = right, 180 = backwards, 270 = left)
+export function directionToAngle(
+  direction: "forward" | "backwards" | "left" | "right"
+): number {
+  switch (direction) {
+    case "forward":
+      return 0;
+    case "right":
+      return 90;
+    case "backwards":
+      return 180;
+    case "left":
+      return 270;
+    default:
+      return 0;
+  }
+}
+
+// Heading of the line between two points, in degrees clockwise from
+// "forward" (up on the canvas), in [0, 360)
+export function getBearing(
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): number {
+  const degrees = (Math.atan2(to.x - from.x, from.y - to.y) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+// Signed angle of the turn between two headings, in (-180, 180];
+// positive turns right, negative turns left
+export function getTurnAngle(
+  currentFacing: number,
+  targetDirection: number
+): number {
+  const diff = (((targetDirection - currentFacing) % 360) + 360) % 360;
+  return diff > 180 ? diff - 360 : diff;
+}
+
+// Calculate turn direction from current facing to target direction
+export function calculateTurnDirection(
+  currentFacing: number,
+  targetDirection: number
+): "left" | "right" | "around" | null {
+  const angle = getTurnAngle(currentFacing, targetDirection);
+
+  if (angle === 0) return null; // no turn needed
+  if (Math.abs(angle) === 180) return "around";
+  return angle > 0 ? "right" : "left";
+}
+
+// Kind of turn for a signed angle, or null when the change of heading is
+// too small to mention
+export function classifyTurn(
+  angle: number,
+  thresholds: TurnThresholds = DEFAULT_TURN_THRESHOLDS
+): Turn | null {
+  const magnitude = Math.abs(angle);
+  const direction = angle > 0 ? "right" : "left";
+
+  if (magnitude < thresholds.straight) return null;
+  if (magnitude >= thresholds.turnAround) return { direction: "around" };
+  if (magnitude <= thresholds.slight) return { direction, degree: "slight" };
+  if (magnitude >= thresholds.sharp) return { direction, degree: "sharp" };
+  return { direction };
+}
+
+// Words for a turn: "Bear slightly left", "Turn right", "Make a sharp
+// right", "Turn around", or null when the change of heading is too small
+// to mention
+export function describeTurn(
+  angle: number,
+  thresholds: TurnThresholds = DEFAULT_TURN_THRESHOLDS
+): string | null {
+  const turn = classifyTurn(angle, thresholds);
+  if (!turn) return null;
+  return renderToken({ type: "turn", ...turn });
+}
+
+export function getPerpendicularDistance(
+  point: { x: number; y: number },
+  lineStart: { x: number; y: number },
+  lineEnd: { x: number; y: number }
+): number {
+  const A = point.x - lineStart.x;
+  const B = point.y - lineStart.y;
+  const C = lineEnd.x - lineStart.x;
+  const D = lineEnd.y - lineStart.y;
+
+  const dot = A * C + B * D;
+  const lenSq = C * C + D * D;
+
+  if (lenSq === 0) return Math.sqrt(A * A + B * B);
+
+  const param = dot / lenSq;
+
+  let xx, yy;
+  if (param < 0) {
+    xx = lineStart.x;
+    yy = lineStart.y;
+  } else if (param > 1) {
+    xx = lineEnd.x;
+    yy = lineEnd.y;
+  } else {
+    xx = lineStart.x + param * C;
+    yy = lineStart.y + param * D;
+  }
+
+  return Math.sqrt((point.x - xx) ** 2 + (point.y - yy) ** 2);
+}
+
+type Point = { x: number; y: number };
+
+// Unclamped fraction along the segment, for telling whether a point is
+// passed on the way or lies at (or beyond) either end
+const fractionAlongLine = (point: Point, start: Point, end: Point) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return 0;
+  return ((point.x - start.x) * dx + (point.y - start.y) * dy) / lenSq;
+};
+
+// Fraction of the way along the segment of the point closest to `point`
+const projectOntoSegment = (point: Point, start: Point, end: Point) =>
+  Math.min(1, Math.max(0, fractionAlongLine(point, start, end)));
+
+// Positive cross product means the point is clockwise of the heading,
+// i.e. on the right (the canvas y axis points down)
+const sideOf = (point: Point, start: Point, end: Point) =>
+  (end.x - start.x) * (point.y - start.y) -
+    (end.y - start.y) * (point.x - start.x) >=
+  0
+    ? "right"
+    : "left";
+
+// Doors within `radius` pixels of the segment, strictly between its ends
+// so the doors a path starts or finishes at are not counted
+export function countDoorsPassed(
+  rooms: SegmentRoom[],
+  start: Point,
+  end: Point,
+  radius: number,
+  gridSize: number = 20
+): SideCounts {
+  const counts = { left: 0, right: 0 };
+  for (const room of rooms) {
+    const door = {
+      x: room.x + room.doorX + gridSize / 2,
+      y: room.y + room.doorY + gridSize / 2,
+    };
+    const t = fractionAlongLine(door, start, end);
+    if (t <= 0 || t >= 1) continue;
+    if (getPerpendicularDistance(door, start, end) > radius) continue;
+    counts[sideOf(door, start, end)]++;
+  }
+  return counts;
+}
+
+// Side corridors leaving the segment: each edge from a corridor junction
+// (a node with three or more edges) on the segment that heads off to the
+// side. Nodes within `tolerance` pixels of the segment's line lie on it.
+export function countOpeningsPassed(
+  graph: CorridorGraph,
+  start: Point,
+  end: Point,
+  tolerance: number = CORRIDOR_NODE_TOLERANCE_METRES *
+    DEFAULT_PIXELS_PER_METRE
+): SideCounts {
+  const counts = { left: 0, right: 0 };
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const neighbours = new Map<string, Point[]>();
+  for (const edge of graph.edges) {
+    const from = nodesById.get(edge.fromNodeId);
+    const to = nodesById.get(edge.toNodeId);
+    if (!from || !to) continue;
+    neighbours.set(from.id, [...(neighbours.get(from.id) ?? []), to]);
+    neighbours.set(to.id, [...(neighbours.get(to.id) ?? []), from]);
+  }
+
+  for (const node of graph.nodes) {
+    // Door nodes are counted as doors, not openings
+    if (node.roomId) continue;
+    const branches = neighbours.get(node.id) ?? [];
+    if (branches.length < 3) continue;
+    const t = fractionAlongLine(node, start, end);
+    if (t <= 0 || t >= 1) continue;
+    if (getPerpendicularDistance(node, start, end) > tolerance) continue;
+
+    for (const branch of branches) {
+      // Branches continuing along the corridor are not openings
+      if (getPerpendicularDistance(branch, start, end) <= tolerance) {
+        continue;
+      }
+      counts[sideOf(branch, start, end)]++;
+    }
+  }
+  return counts;
+}
+
+// Walls of a room, each with the outward direction it faces
+const roomWalls = (room: SegmentRoom) => [
+  {
+    normal: { x: 0, y: -1 },
+    distanceTo: (p: Point) => Math.abs(p.y - room.y),
+  },
+  {
+    normal: { x: 0, y: 1 },
+    distanceTo: (p: Point) => Math.abs(p.y - (room.y + room.height)),
+  },
+  {
+    normal: { x: -1, y: 0 },
+    distanceTo: (p: Point) => Math.abs(p.x - room.x),
+  },
+  {
+    normal: { x: 1, y: 0 },
+    distanceTo: (p: Point) => Math.abs(p.x - (room.x + room.width)),
+  },
+];
+
+// Where a room sits relative to someone walking from `start` to `end`
+function locateLandmark(
+  room: SegmentRoom,
+  start: Point,
+  end: Point,
+  gridSize: number = 20
+): Omit<SegmentLandmark, "stepsAlong"> & { fractionAlong: number } {
+  const center = { x: room.x + room.width / 2, y: room.y + room.height / 2 };
+  const door = {
+    x: room.x + room.doorX + gridSize / 2,
+    y: room.y + room.doorY + gridSize / 2,
+  };
+
+  const side = sideOf(center, start, end);
+
+  // The wall facing the segment is the one whose outward direction points
+  // most towards it; the door is in whichever wall it is closest to
+  const t = projectOntoSegment(center, start, end);
+  const toSegment = {
+    x: start.x + (end.x - start.x) * t - center.x,
+    y: start.y + (end.y - start.y) * t - center.y,
+  };
+  const walls = roomWalls(room);
+  const facingWall = walls.reduce((best, wall) =>
+    wall.normal.x * toSegment.x + wall.normal.y * toSegment.y >
+    best.normal.x * toSegment.x + best.normal.y * toSegment.y
+      ? wall
+      : best
+  );
+  const doorWall = walls.reduce((best, wall) =>
+    wall.distanceTo(door) < best.distanceTo(door) ? wall : best
+  );
+  const doorFacesCorridor = doorWall === facingWall;
+
+  return {
+    name: room.name,
+    side,
+    doorFacesCorridor,
+    // A door on the corridor is what the walker passes; otherwise the room
+    fractionAlong: projectOntoSegment(
+      doorFacesCorridor ? door : center,
+      start,
+      end
+    ),
+  };
+}
+
+export function calculatePathSegments(
+  anchors: AnchorPoint[],
+  allRooms: SegmentRoom[],
+  corridorGraph?: CorridorGraph,
+  pixelsPerMetre: number = DEFAULT_PIXELS_PER_METRE
+): PathSegment[] {
+  const segments: PathSegment[] = [];
+
+  for (let i = 0; i < anchors.length - 1; i++) {
+    const from = anchors[i];
+    const to = anchors[i + 1];
+
+    if (!from || !to) continue;
+
+    const distance = Math.sqrt(
+      Math.pow(to.xCoords - from.xCoords, 2) +
+        Math.pow(to.yCoords - from.yCoords, 2)
+    );
+
+    const metres = pixelsToMetres(distance, pixelsPerMetre);
+    const steps = metresToSteps(metres);
+    const direction = getDirection(
+      { x: from.xCoords, y: from.yCoords },
+      { x: to.xCoords, y: to.yCoords }
+    );
+    const bearing = getBearing(
+      { x: from.xCoords, y: from.yCoords },
+      { x: to.xCoords, y: to.yCoords }
+    );
+
+    // Find nearby rooms within a few metres perpendicular distance
+    const nearby = allRooms
+      .filter((room) => {
+        const roomCenter = {
+          x: room.x + room.width / 2,
+          y: room.y + room.height / 2,
+        };
+
+        const distance = getPerpendicularDistance(
+          roomCenter,
+          { x: from.xCoords, y: from.yCoords },
+          { x: to.xCoords, y: to.yCoords }
+        );
+
+        return distance <= NEARBY_ROOM_RADIUS_METRES * pixelsPerMetre;
+      });
+    const nearbyRooms = nearby.map((room) => room.name);
+
+    const landmarks = nearby
+      .map((room) => {
+        const { fractionAlong, ...landmark } = locateLandmark(
+          room,
+          { x: from.xCoords, y: from.yCoords },
+          { x: to.xCoords, y: to.yCoords }
+        );
+        return {
+          ...landmark,
+          stepsAlong: Math.round(fractionAlong * steps),
+          metresAlong: fractionAlong * metres,
+        };
+      })
+      .sort((a, b) => a.stepsAlong - b.stepsAlong);
+
+    const start = { x: from.xCoords, y: from.yCoords };
+    const end = { x: to.xCoords, y: to.yCoords };
+    const doorsPassed = countDoorsPassed(
+      allRooms,
+      start,
+      end,
+      DOOR_PASS_RADIUS_METRES * pixelsPerMetre
+    );
+    // Without a corridor graph there is nothing to count openings from
+    const openingsPassed = corridorGraph
+      ? countOpeningsPassed(
+          corridorGraph,
+          start,
+          end,
+          CORRIDOR_NODE_TOLERANCE_METRES * pixelsPerMetre
+        )
+      : undefined;
+
+    segments.push({
+      direction,
+      steps,
+      metres,
+      nearbyRooms,
+      landmarks,
+      doorsPassed,
+      openingsPassed,
+      bearing,
+    });
+  }
+
+  return segments;
+}
+
+// Calculate relative directions based on path progression
+export function calculateRelativeDirections(
+  segments: PathSegment[],
+  thresholds: TurnThresholds = DEFAULT_TURN_THRESHOLDS
+): PathSegment[] {
+  if (segments.length === 0) return segments;
+
+  const firstSegment = segments[0];
+  if (!firstSegment) return segments;
+
+  // Segments computed from anchors carry their true bearing; older ones
+  // only know their cardinal direction
+  const headingOf = (segment: PathSegment) =>
+    segment.bearing ?? directionToAngle(segment.direction);
+
+  let currentFacingAngle = headingOf(firstSegment);
+
+  return segments.map((segment, index) => {
+    const segmentAngle = headingOf(segment);
+    // First segment - no turn needed, just move forward
+    const turnAngle =
+      index === 0
+        ? 0
+        : Math.round(getTurnAngle(currentFacingAngle, segmentAngle));
+    const turn = classifyTurn(turnAngle, thresholds);
+    const turnWords = describeTurn(turnAngle, thresholds);
+
+    const relativeDirection = turnWords
+      ? `${turnWords} and move forward`
+      : "Move forward";
+
+    // Update current facing direction for next segment
+    currentFacingAngle = segmentAngle;
+
+    return {
+      ...segment,
+      relativeDirection,
+      facingDirection: segment.direction,
+      turnAngle,
+      turn,
+    };
+  });
+}
+
+// "after 6 steps, the Restroom door is on your right"
+export function describeLandmark(landmark: SegmentLandmark): Instruction {
+  const where: Instruction =
+    landmark.stepsAlong === 0
+      ? [text("right away, ")]
+      : [
+          text("after "),
+          stepsToken(
+            landmark.metresAlong ?? landmark.stepsAlong * MEDIUM_STEP_METRES
+          ),
+          text(", "),
+        ];
+  return [
+    ...where,
+    {
+      type: "landmark",
+      name: landmark.name,
+      side: landmark.side,
+      door: landmark.doorFacesCorridor,
+    },
+  ];
+}
+
+// ", passing 2 doors on your left and 1 opening on your right"
+export function describePassed(segment: PathSegment): string {
+  const counted = (
+    counts: SideCounts | undefined,
+    singular: string,
+    plural: string
+  ) =>
+    (["left", "right"] as const)
+      .filter((side) => (counts?.[side] ?? 0) > 0)
+      .map((side) => {
+        const count = counts![side];
+        return `${count} ${count === 1 ? singular : plural} on your ${side}`;
+      });
+
+  const parts = [
+    ...counted(segment.doorsPassed, "door", "doors"),
+    ...counted(segment.openingsPassed, "opening", "openings"),
+  ];
+  return parts.length > 0 ? `, passing ${parts.join(" and ")}` : "";
+}
+
+// The turn made before a segment, stating its angle unless it is a plain
+// right angle or turning around; null when the walker keeps going
+export function turnToken(segment: PathSegment): InstructionToken | null {
+  if (!segment.turn) return null;
+  const angle = Math.abs(segment.turnAngle ?? 0);
+  return {
+    type: "turn",
+    ...segment.turn,
+    ...(segment.turn.direction !== "around" && angle !== 90 ? { angle } : {}),
+  };
+}
+
+// Concise instructions ("Turn right and move forward 8 steps"). Turns
+// other than a plain right angle or turning around also state their angle,
+// e.g. "Bear slightly left (35°) and move forward 4 steps", then the doors
+// and openings passed, and rooms passed on the way follow as
+// "; after 6 steps, ...".
+export function buildConciseInstructions(
+  relativeSegments: PathSegment[]
+): Instruction[] {
+  return relativeSegments.map((segment) => {
+    const turn = turnToken(segment);
+    const movement: Instruction = turn
+      ? [turn, text(" and move forward ")]
+      : [text("Move forward ")];
+    const distance = stepsToken(
+      segment.metres ?? segment.steps * MEDIUM_STEP_METRES
+    );
+    const passed = describePassed(segment);
+
+    return [
+      ...movement,
+      distance,
+      ...(passed ? [text(passed)] : []),
+      ...(segment.landmarks ?? []).flatMap((landmark) => [
+        text("; "),
+        ...describeLandmark(landmark),
+      ]),
+    ];
+  });
+}
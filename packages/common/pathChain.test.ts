@@ -0,0 +1,118 @@
+import { expect, test, describe } from "vitest";
+import {
+  combineChainInstructions,
+  findChainedRoomIds,
+  findPathChain,
+  joinChainAnchors,
+  type ChainablePath,
+} from "./pathChain";
+import { parseInstructionText, text } from "./instructions";
+
+const anchors = (...points: [number, number][]) =>
+  points.map(([xCoords, yCoords]) => ({ xCoords, yCoords }));
+
+const path = (
+  fromRoomId: string,
+  toRoomId: string,
+  ...points: [number, number][]
+): ChainablePath => ({
+  id: `${fromRoomId}${toRoomId}`,
+  fromRoomId,
+  toRoomId,
+  anchors: anchors(...points),
+});
+
+// a → b → c along a corridor, plus a long detour a → d → c
+const paths = [
+  path("a", "b", [0, 0], [100, 0]),
+  path("b", "c", [100, 0], [200, 0]),
+  path("a", "d", [0, 0], [0, 500]),
+  path("d", "c", [0, 500], [200, 0]),
+];
+
+describe("Path chaining", () => {
+  describe("findPathChain", () => {
+    test("picks the shortest chain of drawn paths", () => {
+      expect(findPathChain(paths, "a", "c")?.map((p) => p.id)).toEqual([
+        "ab",
+        "bc",
+      ]);
+    });
+
+    test("does not walk paths backwards", () => {
+      expect(findPathChain(paths, "c", "a")).toBeNull();
+    });
+  });
+
+  describe("findChainedRoomIds", () => {
+    test("lists every room reachable from the start", () => {
+      expect(findChainedRoomIds(paths, "a").sort()).toEqual([
+        "b",
+        "c",
+        "d",
+      ]);
+      expect(findChainedRoomIds(paths, "c")).toEqual([]);
+    });
+  });
+
+  describe("joinChainAnchors", () => {
+    test("keeps the shared door point once", () => {
+      expect(joinChainAnchors(paths.slice(0, 2))).toEqual(
+        anchors([0, 0], [100, 0], [200, 0])
+      );
+    });
+  });
+
+  describe("combineChainInstructions", () => {
+    const roomB = { name: "Library", number: "12" };
+    const roomC = { name: "Office", number: "14" };
+
+    test("adds a transition sentence at each intermediate door", () => {
+      const combined = combineChainInstructions([
+        {
+          toRoom: roomB,
+          instructionSet: {
+            descriptiveInstructions: [[text("Walk to the library")]],
+            conciseInstructions: [parseInstructionText("Forward {{5}} steps")],
+          },
+        },
+        {
+          toRoom: roomC,
+          instructionSet: {
+            descriptiveInstructions: [[text("Walk to the office")]],
+            conciseInstructions: [parseInstructionText("Forward {{5}} steps")],
+          },
+        },
+      ]);
+
+      expect(combined.descriptiveInstructions).toEqual([
+        [text("Walk to the library")],
+        [
+          text(
+            "You are now at the door of Library (Room 12). Continue from here."
+          ),
+        ],
+        [text("Walk to the office")],
+      ]);
+      expect(combined.conciseInstructions).toHaveLength(3);
+    });
+
+    test("leaves a list empty when any hop lacks it", () => {
+      const combined = combineChainInstructions([
+        {
+          toRoom: roomB,
+          instructionSet: {
+            descriptiveInstructions: [],
+            conciseInstructions: [parseInstructionText("Forward {{5}} steps")],
+          },
+        },
+        { toRoom: roomC, instructionSet: null },
+      ]);
+
+      expect(combined).toEqual({
+        descriptiveInstructions: [],
+        conciseInstructions: [],
+      });
+    });
+  });
+});
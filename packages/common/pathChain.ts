@@ -0,0 +1,155 @@
+// Composing routes from drawn paths: A→B followed by B→C gives A→C, with a
+// transition sentence at every intermediate room's door.
+
+import type { AnchorPoint } from "./navigation";
+import { text, type Instruction } from "./instructions";
+
+export interface ChainablePath {
+  id: string;
+  fromRoomId: string;
+  toRoomId: string;
+  anchors: AnchorPoint[];
+}
+
+export interface ChainRoom {
+  name: string;
+  number: string;
+}
+
+export interface ChainInstructionSet {
+  descriptiveInstructions: Instruction[];
+  conciseInstructions: Instruction[];
+}
+
+export function getPathLength(anchors: AnchorPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < anchors.length; i++) {
+    const prev = anchors[i - 1]!;
+    const next = anchors[i]!;
+    length += Math.sqrt(
+      (next.xCoords - prev.xCoords) ** 2 + (next.yCoords - prev.yCoords) ** 2
+    );
+  }
+  return length;
+}
+
+// Dijkstra over rooms with drawn paths as edges, weighted by walking length
+function shortestChainsFrom<T extends ChainablePath>(
+  paths: T[],
+  fromRoomId: string
+) {
+  const outgoing = new Map<string, T[]>();
+  for (const path of paths) {
+    outgoing.set(path.fromRoomId, [
+      ...(outgoing.get(path.fromRoomId) ?? []),
+      path,
+    ]);
+  }
+
+  const distances = new Map<string, number>([[fromRoomId, 0]]);
+  const previous = new Map<string, T>();
+  const visited = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    let currentDistance = Infinity;
+    for (const [roomId, distance] of distances) {
+      if (!visited.has(roomId) && distance < currentDistance) {
+        current = roomId;
+        currentDistance = distance;
+      }
+    }
+    if (current === null) break;
+    visited.add(current);
+
+    for (const path of outgoing.get(current) ?? []) {
+      const candidate = currentDistance + getPathLength(path.anchors);
+      if (candidate < (distances.get(path.toRoomId) ?? Infinity)) {
+        distances.set(path.toRoomId, candidate);
+        previous.set(path.toRoomId, path);
+      }
+    }
+  }
+
+  return { distances, previous };
+}
+
+// Shortest sequence of drawn paths leading from one room to another, or
+// null when no chain exists
+export function findPathChain<T extends ChainablePath>(
+  paths: T[],
+  fromRoomId: string,
+  toRoomId: string
+): T[] | null {
+  if (fromRoomId === toRoomId) return null;
+
+  const { previous } = shortestChainsFrom(paths, fromRoomId);
+  if (!previous.has(toRoomId)) return null;
+
+  const chain: T[] = [];
+  let cursor = toRoomId;
+  while (cursor !== fromRoomId) {
+    const path = previous.get(cursor)!;
+    chain.unshift(path);
+    cursor = path.fromRoomId;
+  }
+  return chain;
+}
+
+// Ids of every room some chain of drawn paths reaches from fromRoomId
+export function findChainedRoomIds(
+  paths: ChainablePath[],
+  fromRoomId: string
+): string[] {
+  const { distances } = shortestChainsFrom(paths, fromRoomId);
+  return [...distances.keys()].filter((roomId) => roomId !== fromRoomId);
+}
+
+// Anchors of the whole chain; the shared door point between two paths is
+// only kept once
+export function joinChainAnchors(chain: ChainablePath[]): AnchorPoint[] {
+  const anchors: AnchorPoint[] = [];
+  for (const path of chain) {
+    for (const anchor of path.anchors) {
+      const last = anchors[anchors.length - 1];
+      if (
+        last &&
+        last.xCoords === anchor.xCoords &&
+        last.yCoords === anchor.yCoords
+      ) {
+        continue;
+      }
+      anchors.push({ xCoords: anchor.xCoords, yCoords: anchor.yCoords });
+    }
+  }
+  return anchors;
+}
+
+export function describeChainTransition(room: ChainRoom): string {
+  return `You are now at the door of ${room.name} (Room ${room.number}). Continue from here.`;
+}
+
+// Concatenate the instruction sets of each hop with a transition sentence
+// at every intermediate door. A list is only produced when every hop has
+// instructions of that kind, so a chain never skips part of the way.
+export function combineChainInstructions(
+  hops: { instructionSet: ChainInstructionSet | null; toRoom: ChainRoom }[]
+): ChainInstructionSet {
+  const combine = (pick: (set: ChainInstructionSet) => Instruction[]) => {
+    const lists = hops.map((hop) =>
+      hop.instructionSet ? pick(hop.instructionSet) : []
+    );
+    if (lists.some((list) => list.length === 0)) return [];
+
+    return lists.flatMap((list, index) =>
+      index < hops.length - 1
+        ? [...list, [text(describeChainTransition(hops[index]!.toRoom))]]
+        : list
+    );
+  };
+
+  return {
+    descriptiveInstructions: combine((set) => set.descriptiveInstructions),
+    conciseInstructions: combine((set) => set.conciseInstructions),
+  };
+}
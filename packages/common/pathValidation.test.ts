@@ -0,0 +1,100 @@
+import { expect, test, describe } from "vitest";
+import {
+  segmentCrossesRoom,
+  validatePathGeometry,
+  type ValidationRoom,
+} from "./pathValidation";
+
+// Two rooms side by side with doors in their bottom walls, and a third room
+// sitting between them further down
+const library: ValidationRoom = {
+  id: "library",
+  name: "Library",
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  doorX: 40,
+  doorY: 100,
+};
+const office: ValidationRoom = {
+  ...library,
+  id: "office",
+  name: "Office",
+  x: 300,
+};
+const storage: ValidationRoom = {
+  ...library,
+  id: "storage",
+  name: "Storage",
+  x: 140,
+  y: 200,
+};
+const rooms = [library, office, storage];
+
+describe("Path validation", () => {
+  describe("segmentCrossesRoom", () => {
+    test("detects a segment through the interior", () => {
+      expect(
+        segmentCrossesRoom({ x: -10, y: 50 }, { x: 110, y: 50 }, library)
+      ).toBe(true);
+    });
+
+    test("allows running along a wall or missing the room", () => {
+      expect(
+        segmentCrossesRoom({ x: 0, y: 100 }, { x: 100, y: 100 }, library)
+      ).toBe(false);
+      expect(
+        segmentCrossesRoom({ x: 0, y: 150 }, { x: 100, y: 150 }, library)
+      ).toBe(false);
+    });
+  });
+
+  describe("validatePathGeometry", () => {
+    test("accepts a path from door to door around other rooms", () => {
+      const anchors = [
+        { x: 50, y: 110 },
+        { x: 50, y: 150 },
+        { x: 350, y: 150 },
+        { x: 350, y: 110 },
+      ];
+      expect(validatePathGeometry(anchors, library, office, rooms)).toEqual(
+        []
+      );
+    });
+
+    test("reports endpoints away from the doors", () => {
+      const anchors = [
+        { x: 70, y: 150 },
+        { x: 330, y: 150 },
+      ];
+      const codes = validatePathGeometry(
+        anchors,
+        library,
+        office,
+        rooms
+      ).map((issue) => issue.code);
+      expect(codes).toEqual(["START_NOT_AT_DOOR", "END_NOT_AT_DOOR"]);
+    });
+
+    test("reports the segment and room a path cuts through", () => {
+      const anchors = [
+        { x: 50, y: 110 },
+        { x: 50, y: 250 },
+        { x: 350, y: 250 },
+        { x: 350, y: 110 },
+      ];
+      expect(
+        validatePathGeometry(anchors, library, office, rooms)
+      ).toMatchObject([
+        { code: "CROSSES_ROOM", segmentIndex: 1, roomId: "storage" },
+      ]);
+    });
+
+    test("needs at least two anchors", () => {
+      expect(
+        validatePathGeometry([{ x: 50, y: 110 }], library, office, rooms)
+      ).toMatchObject([{ code: "TOO_FEW_ANCHORS" }]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Geometry checks for hand-drawn paths: a path must leave from the source
+// room's door, arrive at the destination room's door and never cut through
+// a room.
+
+import {
+  DEFAULT_GRID_SIZE,
+  getRoomDoorPosition,
+  type Position,
+  type RoutableRoom,
+} from "./corridorGraph";
+
+export interface ValidationRoom extends RoutableRoom {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export type PathValidationIssue =
+  | { code: "TOO_FEW_ANCHORS"; message: string }
+  | {
+      code: "START_NOT_AT_DOOR" | "END_NOT_AT_DOOR";
+      message: string;
+      anchorIndex: number;
+      roomId: string;
+    }
+  | {
+      code: "CROSSES_ROOM";
+      message: string;
+      // Segment from anchor segmentIndex to anchor segmentIndex + 1
+      segmentIndex: number;
+      roomId: string;
+    };
+
+const isAtDoor = (
+  point: Position,
+  room: ValidationRoom,
+  gridSize: number
+) => {
+  const door = getRoomDoorPosition(room, gridSize);
+  return (
+    Math.abs(point.x - door.x) <= gridSize / 2 &&
+    Math.abs(point.y - door.y) <= gridSize / 2
+  );
+};
+
+// Whether any stretch of the segment lies strictly inside the room's
+// interior. Running along a wall or touching a corner is allowed.
+export function segmentCrossesRoom(
+  from: Position,
+  to: Position,
+  room: Pick<ValidationRoom, "x" | "y" | "width" | "height">
+): boolean {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 && dy === 0) return false;
+
+  // Liang-Barsky clipping against the room rectangle
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, from.x - room.x],
+    [dx, room.x + room.width - from.x],
+    [-dy, from.y - room.y],
+    [dy, room.y + room.height - from.y],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  if (t1 - t0 <= 1e-9) return false;
+
+  // The clipped part must run through the interior, not along its edge
+  const mid = {
+    x: from.x + dx * ((t0 + t1) / 2),
+    y: from.y + dy * ((t0 + t1) / 2),
+  };
+  return (
+    mid.x > room.x &&
+    mid.x < room.x + room.width &&
+    mid.y > room.y &&
+    mid.y < room.y + room.height
+  );
+}
+
+// All problems with a drawn path; an empty list means the path is valid
+export function validatePathGeometry(
+  anchors: Position[],
+  fromRoom: ValidationRoom,
+  toRoom: ValidationRoom,
+  rooms: ValidationRoom[],
+  gridSize: number = DEFAULT_GRID_SIZE
+): PathValidationIssue[] {
+  if (anchors.length < 2) {
+    return [
+      {
+        code: "TOO_FEW_ANCHORS",
+        message: "A path needs at least a start and an end point",
+      },
+    ];
+  }
+
+  const issues: PathValidationIssue[] = [];
+  const lastIndex = anchors.length - 1;
+
+  if (!isAtDoor(anchors[0]!, fromRoom, gridSize)) {
+    issues.push({
+      code: "START_NOT_AT_DOOR",
+      message: `The path does not start at the door of ${fromRoom.name}`,
+      anchorIndex: 0,
+      roomId: fromRoom.id,
+    });
+  }
+  if (!isAtDoor(anchors[lastIndex]!, toRoom, gridSize)) {
+    issues.push({
+      code: "END_NOT_AT_DOOR",
+      message: `The path does not end at the door of ${toRoom.name}`,
+      anchorIndex: lastIndex,
+      roomId: toRoom.id,
+    });
+  }
+
+  for (let i = 0; i < lastIndex; i++) {
+    for (const room of rooms) {
+      if (segmentCrossesRoom(anchors[i]!, anchors[i + 1]!, room)) {
+        issues.push({
+          code: "CROSSES_ROOM",
+          message: `The path passes through ${room.name}`,
+          segmentIndex: i,
+          roomId: room.id,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,113 @@
+import { expect, test, describe } from "vitest";
+import { findInventedPlaces } from "./placeGuard";
+import { parseInstructionText } from "./instructions";
+import { calculateRelativeDirections } from "./navigation";
+import { buildTemplateInstructions } from "./templateInstructions";
+import type { GeneratedStep } from "./generation";
+
+const rooms = [
+  { name: "Library", number: "101" },
+  { name: "Restroom", number: "102", aliases: ["Toilets"] },
+  { name: "Principal's Office", number: "103" },
+];
+
+const step = (text: string, segmentIndex = 0): GeneratedStep => ({
+  segmentIndex,
+  instruction: parseInstructionText(text),
+});
+
+const invented = (...texts: string[]) =>
+  findInventedPlaces(
+    texts.map((text, index) => step(text, index)),
+    rooms
+  ).map((place) => place.reference);
+
+describe("findInventedPlaces", () => {
+  test("accepts rooms by name, number and alias", () => {
+    expect(
+      invented(
+        "Leave the Library and walk {{8|5.6}} steps.",
+        "The Toilets door is on your left; Room 102 is just past it.",
+        "Turn right and you will reach the Principal's Office.",
+        "Walk ahead {{3|2.1}} steps, passing the restroom on your right."
+      )
+    ).toEqual([]);
+  });
+
+  test("accepts rooms left with their default names", () => {
+    const defaultRooms = [
+      { name: "Room 1", number: "Room 1" },
+      { name: "Room 2", number: "Room 2" },
+    ];
+    const check = (text: string) =>
+      findInventedPlaces([step(text)], defaultRooms).map(
+        (place) => place.reference
+      );
+
+    expect(check("Leave Room 1 and walk ahead to Room 2.")).toEqual([]);
+    expect(check("Walk ahead to Room 3.")).toEqual(["Room 3"]);
+  });
+
+  test("rejects names and numbers that are not on the floor", () => {
+    expect(
+      invented(
+        "Walk past the Cafeteria and the Main Hall.",
+        "Room 110 is on your left."
+      )
+    ).toEqual(["Cafeteria", "Main Hall", "Room 110"]);
+  });
+
+  test("rejects landmarks the model adds to the route", () => {
+    expect(
+      invented("Keep walking until you hear the water fountain by the stairs.")
+    ).toEqual(["fountain", "stairs"]);
+  });
+
+  test("ignores the capital at the start of a sentence", () => {
+    expect(
+      invented("Continue ahead. Carefully walk {{4|2.8}} steps.")
+    ).toEqual([]);
+  });
+
+  test("accepts the template instructions", () => {
+    const segments = calculateRelativeDirections([
+      {
+        direction: "forward",
+        steps: 8,
+        metres: 5.6,
+        nearbyRooms: ["Restroom"],
+        bearing: 0,
+        doorsPassed: { left: 1, right: 0 },
+        landmarks: [
+          {
+            name: "Restroom",
+            side: "left",
+            stepsAlong: 3,
+            doorFacesCorridor: true,
+          },
+        ],
+      },
+      { direction: "right", steps: 3, nearbyRooms: [], bearing: 90 },
+    ]);
+    const { descriptiveInstructions } = buildTemplateInstructions(
+      segments,
+      { name: "Library" },
+      { name: "Principal's Office" }
+    );
+    expect(
+      findInventedPlaces(
+        descriptiveInstructions.map((instruction, segmentIndex) => ({
+          segmentIndex,
+          instruction,
+        })),
+        rooms
+      )
+    ).toEqual([]);
+  });
+
+  test("reports the step each place was found in", () => {
+    expect(
+      findInventedPlaces([step("Pass the Gym.", 2)], rooms)
+    ).toEqual([{ segmentIndex: 2, reference: "Gym" }]);
+  });
+});
@@ -0,0 +1,166 @@
+// Finds places a model's instructions name that are not on the floor. A
+// walker who cannot see relies on every landmark being real, so output
+// naming one that does not exist is rejected rather than saved.
+
+import type { GeneratedStep } from "./generation";
+import type { Instruction } from "./instructions";
+
+export interface KnownRoom {
+  name: string;
+  number: string;
+  aliases?: string[];
+}
+
+export interface InventedPlace {
+  segmentIndex: number;
+  // The place as the model wrote it
+  reference: string;
+}
+
+// "Room 204", "room B12"
+const ROOM_NUMBER_PATTERN = /\broom\s+([a-z]?\d+[a-z]?)\b/gi;
+
+// Runs of capitalised words, e.g. "Main Hall" or "Hall of Fame"
+const PROPER_NAME_PATTERN =
+  /[A-Z][\w'’]*(?:[ -](?:of |and |& )?[A-Z][\w'’]*)*/g;
+
+// Capitalised words that are not names of places
+const NOT_PLACES = new Set(["i", "room", "rooms", "floor", "level"]);
+
+// Kinds of place a model tends to invent when it embellishes a route.
+// Naming one is only allowed when a room on the floor is called that.
+const PLACE_NOUNS = [
+  "atrium",
+  "auditorium",
+  "bathroom",
+  "bench",
+  "cafe",
+  "cafeteria",
+  "canteen",
+  "classroom",
+  "counter",
+  "elevator",
+  "escalator",
+  "fountain",
+  "kitchen",
+  "laboratory",
+  "library",
+  "lift",
+  "lobby",
+  "lounge",
+  "pillar",
+  "ramp",
+  "reception",
+  "restroom",
+  "staircase",
+  "stairs",
+  "stairwell",
+  "toilet",
+  "toilets",
+  "vending machine",
+  "washroom",
+];
+const PLACE_NOUN_PATTERN = new RegExp(
+  `\\b(${PLACE_NOUNS.join("|")})s?\\b`,
+  "gi"
+);
+
+const normalise = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[’]/g, "'")
+    .replace(/[^\w' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// The text of an instruction, with the names of any landmark tokens
+function namesIn(instruction: Instruction) {
+  return {
+    text: instruction
+      .map((token) => (token.type === "text" ? token.value : " "))
+      .join(""),
+    landmarks: instruction.flatMap((token) =>
+      token.type === "landmark" ? [token.name] : []
+    ),
+  };
+}
+
+// Every place the steps name that is not one of the rooms, by name,
+// number or alias. A name counts as known when it is, or contains, one of
+// the rooms' names, so "the Library door" is fine where there is a Library.
+export function findInventedPlaces(
+  steps: GeneratedStep[],
+  rooms: KnownRoom[]
+): InventedPlace[] {
+  const names = rooms
+    .flatMap((room) => [room.name, ...(room.aliases ?? [])])
+    .map(normalise)
+    .filter(Boolean);
+  const numbers = new Set(
+    rooms.flatMap((room) =>
+      [room.number, ...(room.aliases ?? [])].map(normalise)
+    )
+  );
+  const knownWords = new Set(names.flatMap((name) => name.split(" ")));
+  // Either number of a word in a room's name, so "toilet" matches "Toilets"
+  const isKnownWord = (word: string) =>
+    knownWords.has(word) ||
+    knownWords.has(`${word}s`) ||
+    (word.endsWith("s") && knownWords.has(word.slice(0, -1)));
+
+  const isKnownName = (reference: string) => {
+    const name = normalise(reference);
+    return names.some(
+      (known) =>
+        name === known ||
+        ` ${name} `.includes(` ${known} `) ||
+        ` ${known} `.includes(` ${name} `)
+    );
+  };
+
+  const invented: InventedPlace[] = [];
+  for (const { segmentIndex, instruction } of steps) {
+    const { text, landmarks } = namesIn(instruction);
+    const found = new Set<string>();
+    const reject = (reference: string) => {
+      if (found.has(reference)) return;
+      found.add(reference);
+      invented.push({ segmentIndex, reference });
+    };
+
+    for (const name of landmarks) {
+      if (!isKnownName(name)) reject(name);
+    }
+
+    // Rooms drawn without a name are called "Room 1" by name and number
+    for (const match of text.matchAll(ROOM_NUMBER_PATTERN)) {
+      const known =
+        numbers.has(normalise(match[1]!)) ||
+        numbers.has(normalise(match[0])) ||
+        isKnownName(match[0]);
+      if (!known) reject(match[0]);
+    }
+
+    for (const match of text.matchAll(PROPER_NAME_PATTERN)) {
+      let words = match[0].split(/[ -]/);
+      // The first word of a sentence is capitalised whatever it is
+      const before = text.slice(0, match.index).trimEnd();
+      if (before === "" || /[.!?:]$/.test(before)) words = words.slice(1);
+      while (words.length > 0 && NOT_PLACES.has(normalise(words[0]!))) {
+        words = words.slice(1);
+      }
+      // "Room 204" is checked by its number above
+      if (words.length === 0 || /^[a-z]?\d/i.test(words[0]!)) continue;
+      const reference = words.join(" ").replace(/['’]+$/, "");
+      if (!isKnownName(reference)) reject(reference);
+    }
+
+    for (const match of text.matchAll(PLACE_NOUN_PATTERN)) {
+      const noun = normalise(match[0]);
+      if (!noun.split(" ").every(isKnownWord)) {
+        reject(match[0]);
+      }
+    }
+  }
+  return invented;
+}
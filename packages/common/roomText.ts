@@ -0,0 +1,64 @@
+// Rules for the free text editors give rooms, and how that text is put in
+// front of a language model. Room names, numbers and aliases end up in
+// the instruction prompt, so they are limited to what a name needs and are
+// always quoted there, never pasted in as prompt text.
+
+export const ROOM_NAME_MAX_LENGTH = 64;
+export const ROOM_NUMBER_MAX_LENGTH = 16;
+
+// Letters, digits, spaces and the punctuation names use: ' ’ & ( ) . , / -
+const NAME_CHARACTERS = "\\p{L}\\p{M}\\p{N} '’&().,/-";
+export const ROOM_NAME_PATTERN = new RegExp(`^[${NAME_CHARACTERS}]+$`, "u");
+export const ROOM_NAME_RULE =
+  "Room names may only use letters, numbers, spaces and ' & ( ) . , / -";
+
+// Letters, digits, spaces and . / -
+const NUMBER_CHARACTERS = "\\p{L}\\p{M}\\p{N} ./-";
+export const ROOM_NUMBER_PATTERN = new RegExp(
+  `^[${NUMBER_CHARACTERS}]+$`,
+  "u"
+);
+export const ROOM_NUMBER_RULE =
+  "Room numbers may only use letters, numbers, spaces and . / -";
+
+// Room text as it can safely appear in a prompt: no control characters or
+// line breaks, no {{ }} that would read as distance placeholders, single
+// spaces and at most maxLength characters. Rooms saved before the input
+// rules existed may still hold any of these.
+export function cleanRoomText(
+  value: string,
+  maxLength = ROOM_NAME_MAX_LENGTH
+): string {
+  return value
+    .replace(/[\p{C}{}`]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
+
+// Room text brought in from elsewhere, such as a floor saved in one go,
+// made to follow the rules instead of being rejected: characters they do
+// not allow become spaces, so "Lab: Chemistry" is saved as "Lab Chemistry".
+// Text with nothing allowed in it comes back empty.
+export function toRoomName(value: string): string {
+  return cleanRoomText(
+    value.replace(new RegExp(`[^${NAME_CHARACTERS}]+`, "gu"), " ")
+  );
+}
+
+export function toRoomNumber(value: string): string {
+  return cleanRoomText(
+    value.replace(new RegExp(`[^${NUMBER_CHARACTERS}]+`, "gu"), " "),
+    ROOM_NUMBER_MAX_LENGTH
+  );
+}
+
+// Room text for a prompt, cleaned and quoted as a JSON string, so the
+// model reads it as one value however it is worded
+export function quoteRoomText(
+  value: string,
+  maxLength = ROOM_NAME_MAX_LENGTH
+): string {
+  return JSON.stringify(cleanRoomText(value, maxLength));
+}
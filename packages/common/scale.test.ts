@@ -0,0 +1,30 @@
+import { expect, test, describe } from "vitest";
+import {
+  DEFAULT_PIXELS_PER_METRE,
+  metresToSteps,
+  pixelsPerMetreFromLine,
+  resolvePixelsPerMetre,
+} from "./scale";
+
+describe("Floor scale", () => {
+  test("derives pixels per metre from a calibration line", () => {
+    expect(
+      pixelsPerMetreFromLine({ x: 0, y: 0 }, { x: 300, y: 400 }, 5)
+    ).toBe(100);
+  });
+
+  test("rejects lines without length or distance", () => {
+    expect(() =>
+      pixelsPerMetreFromLine({ x: 10, y: 10 }, { x: 10, y: 10 }, 5)
+    ).toThrow();
+    expect(() =>
+      pixelsPerMetreFromLine({ x: 0, y: 0 }, { x: 10, y: 0 }, 0)
+    ).toThrow();
+  });
+
+  test("falls back to one medium step per grid cell", () => {
+    expect(resolvePixelsPerMetre(null)).toBe(DEFAULT_PIXELS_PER_METRE);
+    expect(resolvePixelsPerMetre(42)).toBe(42);
+    expect(metresToSteps(20 / DEFAULT_PIXELS_PER_METRE)).toBe(1);
+  });
+});
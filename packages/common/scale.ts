@@ -0,0 +1,53 @@
+// Real-world scale of a floor drawing. Editors calibrate a floor by marking
+// two points a known distance apart; every distance used for instructions
+// is converted to metres with the resulting pixels-per-metre value.
+
+type Point = { x: number; y: number };
+
+// Length of one medium step
+export const MEDIUM_STEP_METRES = 0.7;
+
+// Scale assumed for floors that were never calibrated: one medium step per
+// 20px grid cell, which is what step counts were based on before calibration
+export const DEFAULT_PIXELS_PER_METRE = 20 / MEDIUM_STEP_METRES;
+
+// Rooms whose centre is this close to a segment are mentioned as landmarks
+export const NEARBY_ROOM_RADIUS_METRES = 3.5;
+
+// Doors this close to a segment are counted as passed
+export const DOOR_PASS_RADIUS_METRES = 1.4;
+
+// Corridor nodes this close to a segment's line lie on it
+export const CORRIDOR_NODE_TOLERANCE_METRES = 0.35;
+
+export function resolvePixelsPerMetre(
+  pixelsPerMetre: number | null | undefined
+): number {
+  return pixelsPerMetre && pixelsPerMetre > 0
+    ? pixelsPerMetre
+    : DEFAULT_PIXELS_PER_METRE;
+}
+
+// Scale from a calibration line drawn between two points `metres` apart
+export function pixelsPerMetreFromLine(
+  from: Point,
+  to: Point,
+  metres: number
+): number {
+  if (!(metres > 0)) {
+    throw new Error("The calibration distance must be positive");
+  }
+  const pixels = Math.hypot(to.x - from.x, to.y - from.y);
+  if (pixels === 0) {
+    throw new Error("The calibration points must be apart");
+  }
+  return pixels / metres;
+}
+
+export function pixelsToMetres(pixels: number, pixelsPerMetre: number) {
+  return pixels / pixelsPerMetre;
+}
+
+export function metresToSteps(metres: number) {
+  return Math.round(metres / MEDIUM_STEP_METRES);
+}
@@ -0,0 +1,18 @@
+import { expect, test, describe } from "vitest";
+import { resolveStrideMetres, strideFromCalibration } from "./stride";
+
+describe("Stride", () => {
+  test("calibrates from a walked distance", () => {
+    expect(strideFromCalibration(10, 16)).toBe(0.625);
+    expect(() => strideFromCalibration(10, 2)).toThrow();
+    expect(() => strideFromCalibration(0, 10)).toThrow();
+  });
+
+  test("prefers a calibrated stride over the step size", () => {
+    expect(
+      resolveStrideMetres({ strideLengthMetres: 0.5, stepSize: "LARGE" })
+    ).toBe(0.5);
+    expect(resolveStrideMetres({ stepSize: "LARGE" })).toBe(1);
+    expect(resolveStrideMetres(null)).toBe(0.7);
+  });
+});
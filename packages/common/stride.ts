@@ -0,0 +1,43 @@
+// A walker's stride, for turning the distances in instructions into their
+// own step counts (see renderInstruction in instructions.ts).
+
+import type { StepSize } from "./prisma/enums";
+import { MEDIUM_STEP_METRES } from "./scale";
+
+// Stride lengths behind the step size buckets offered to guests
+export const STEP_SIZE_STRIDE_METRES: Record<StepSize, number> = {
+  SMALL: MEDIUM_STEP_METRES / 1.4,
+  MEDIUM: MEDIUM_STEP_METRES,
+  LARGE: MEDIUM_STEP_METRES / 0.7,
+};
+
+// Calibrated strides outside this range are almost certainly miscounted
+export const MIN_STRIDE_METRES = 0.2;
+export const MAX_STRIDE_METRES = 1.5;
+
+// Stride from walking a known distance and counting the steps taken
+export function strideFromCalibration(
+  distanceMetres: number,
+  stepCount: number
+): number {
+  if (!(distanceMetres > 0) || !(stepCount > 0)) {
+    throw new Error("Distance and step count must be positive");
+  }
+  const stride = distanceMetres / stepCount;
+  if (stride < MIN_STRIDE_METRES || stride > MAX_STRIDE_METRES) {
+    throw new Error(
+      `That works out to ${stride.toFixed(2)} m per step; please recount`
+    );
+  }
+  return stride;
+}
+
+// A calibrated stride wins; otherwise the step size bucket, then medium
+export function resolveStrideMetres(settings?: {
+  strideLengthMetres?: number | null;
+  stepSize?: StepSize | null;
+} | null): number {
+  if (settings?.strideLengthMetres) return settings.strideLengthMetres;
+  if (settings?.stepSize) return STEP_SIZE_STRIDE_METRES[settings.stepSize];
+  return MEDIUM_STEP_METRES;
+}
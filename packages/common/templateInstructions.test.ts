@@ -0,0 +1,76 @@
+import { expect, test, describe } from "vitest";
+import { calculateRelativeDirections, type PathSegment } from "./navigation";
+import { renderInstruction } from "./instructions";
+import { buildTemplateInstructions } from "./templateInstructions";
+
+const library = { name: "Library" };
+const office = { name: "Office" };
+
+// Up the canvas, a slight right, then a right-angle left
+const segments: PathSegment[] = [
+  { direction: "forward", steps: 8, metres: 5.6, nearbyRooms: [], bearing: 0 },
+  {
+    direction: "forward",
+    steps: 4,
+    metres: 2.8,
+    nearbyRooms: ["Lab"],
+    bearing: 30,
+    doorsPassed: { left: 2, right: 0 },
+    landmarks: [
+      {
+        name: "Lab",
+        side: "right",
+        stepsAlong: 2,
+        metresAlong: 1.4,
+        doorFacesCorridor: true,
+      },
+    ],
+  },
+  {
+    direction: "left",
+    steps: 3,
+    metres: 2.1,
+    nearbyRooms: [],
+    bearing: 300,
+  },
+];
+
+describe("Template instructions", () => {
+  test("writes a sentence per segment and one on arrival", () => {
+    const { descriptiveInstructions } = buildTemplateInstructions(
+      calculateRelativeDirections(segments),
+      library,
+      office
+    );
+    expect(
+      descriptiveInstructions.map((instruction) =>
+        renderInstruction(instruction)
+      )
+    ).toEqual([
+      "Leave Library and walk straight ahead for 8 steps.",
+      "Bear slightly right (30°), then continue for 4 steps, passing 2 doors on your left. After 2 steps, the Lab door is on your right.",
+      "Turn left, then keep going for 3 steps.",
+      "You have arrived at Office.",
+    ]);
+  });
+
+  test("keeps tokens so distances follow the walker's settings", () => {
+    const { descriptiveInstructions, conciseInstructions } =
+      buildTemplateInstructions(
+        calculateRelativeDirections(segments),
+        library,
+        office
+      );
+    expect(
+      renderInstruction(descriptiveInstructions[0]!, { unit: "METRES" })
+    ).toBe("Leave Library and walk straight ahead for 5.6 m.");
+    expect(conciseInstructions).toHaveLength(3);
+  });
+
+  test("writes nothing for an empty path", () => {
+    expect(buildTemplateInstructions([], library, office)).toEqual({
+      descriptiveInstructions: [],
+      conciseInstructions: [],
+    });
+  });
+});
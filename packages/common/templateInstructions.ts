@@ -0,0 +1,93 @@
+// Instructions written by fixed rules from the computed segments, with no
+// language model involved. Buildings can choose them outright, and the
+// server falls back to them whenever the model is unavailable.
+
+import type { InstructionGenerator } from "./prisma/enums";
+import {
+  buildConciseInstructions,
+  describeLandmark,
+  describePassed,
+  turnToken,
+  type PathSegment,
+} from "./navigation";
+import { steps, text, type Instruction } from "./instructions";
+import { MEDIUM_STEP_METRES } from "./scale";
+
+export const DEFAULT_INSTRUCTION_GENERATOR: InstructionGenerator = "LLM";
+
+export const INSTRUCTION_GENERATOR_LABELS: Record<
+  InstructionGenerator,
+  string
+> = {
+  LLM: "AI model",
+  TEMPLATE: "Templates",
+};
+
+export interface GeneratedInstructions {
+  descriptiveInstructions: Instruction[];
+  conciseInstructions: Instruction[];
+}
+
+// Rotated so that consecutive steps don't all read the same
+const WALK_PHRASES = [
+  "walk straight ahead for ",
+  "continue for ",
+  "keep going for ",
+];
+
+const capitalise = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+// "After 6 steps, the Lab door is on your right."
+const landmarkSentence = (
+  landmark: NonNullable<PathSegment["landmarks"]>[number]
+): Instruction => {
+  const [first, ...rest] = describeLandmark(landmark);
+  return [
+    text(" "),
+    first?.type === "text" ? text(capitalise(first.value)) : first!,
+    ...rest,
+    text("."),
+  ];
+};
+
+// One descriptive sentence per segment, then one saying the walker has
+// arrived. Takes segments from calculateRelativeDirections.
+export function buildTemplateInstructions(
+  relativeSegments: PathSegment[],
+  fromRoom: { name: string },
+  toRoom: { name: string }
+): GeneratedInstructions {
+  const descriptiveInstructions = relativeSegments.map(
+    (segment, index): Instruction => {
+      const walk = WALK_PHRASES[index % WALK_PHRASES.length]!;
+      const turn = turnToken(segment);
+      const opening: Instruction =
+        index === 0
+          ? [text(`Leave ${fromRoom.name} and ${walk}`)]
+          : turn
+          ? [turn, text(`, then ${walk}`)]
+          : [text(capitalise(walk))];
+      const passed = describePassed(segment);
+
+      return [
+        ...opening,
+        steps(segment.metres ?? segment.steps * MEDIUM_STEP_METRES),
+        ...(passed ? [text(passed)] : []),
+        text("."),
+        ...(segment.landmarks ?? []).flatMap(landmarkSentence),
+      ];
+    }
+  );
+
+  if (descriptiveInstructions.length > 0) {
+    descriptiveInstructions.push([
+      text(`You have arrived at ${toRoom.name}.`),
+    ]);
+  }
+
+  return {
+    descriptiveInstructions,
+    conciseInstructions: buildConciseInstructions(relativeSegments),
+  };
+}
@@ -0,0 +1,28 @@
+import { expect, test, describe } from "vitest";
+import {
+  distancePlaceholder,
+  estimateWalkingMinutes,
+  formatDistance,
+  formatWalkingTime,
+} from "./units";
+
+describe("Distance units", () => {
+  test("writes placeholders with medium steps and metres", () => {
+    expect(distancePlaceholder(5.64)).toBe("{{8|5.6}}");
+  });
+
+  test("formats distances in each unit", () => {
+    expect(formatDistance(5.64, "METRES")).toBe("5.6 m");
+    expect(formatDistance(42.4, "METRES")).toBe("42 m");
+    expect(formatDistance(10, "FEET")).toBe("33 ft");
+    expect(formatDistance(7, "STEPS", 0.5)).toBe("14");
+  });
+
+  test("estimates walking time from the walker's stride", () => {
+    expect(estimateWalkingMinutes(140, 0.7)).toBe(2);
+    expect(formatWalkingTime(estimateWalkingMinutes(140, 0.7))).toBe(
+      "about 2 minutes"
+    );
+    expect(formatWalkingTime(0.4)).toBe("under a minute");
+  });
+});
@@ -0,0 +1,71 @@
+// Distances in instruction text. Step counts are written as {{steps|metres}}
+// placeholders: the medium-step count for readers of the raw text, and the
+// real distance it came from. Older text and LLM output may carry only
+// {{steps}}, in which case the distance is worked out from medium steps.
+
+import type { DistanceUnit } from "./prisma/enums";
+import { MEDIUM_STEP_METRES, metresToSteps } from "./scale";
+
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  STEPS: "Steps",
+  METRES: "Metres",
+  FEET: "Feet",
+};
+
+export const DEFAULT_DISTANCE_UNIT: DistanceUnit = "STEPS";
+
+const FEET_PER_METRE = 3.28084;
+
+// Typical walking cadence, for turning a walker's steps into time
+export const DEFAULT_CADENCE_STEPS_PER_MINUTE = 100;
+
+// Matches a placeholder and the word "step(s)" that usually follows it
+export const DISTANCE_PLACEHOLDER =
+  /\{\{(\d+)(?:\|(\d+(?:\.\d+)?))?\}\}(\s+steps?\b)?/g;
+
+export function distancePlaceholder(metres: number): string {
+  return `{{${metresToSteps(metres)}|${Math.round(metres * 10) / 10}}}`;
+}
+
+// Metres behind a matched placeholder
+export function placeholderMetres(
+  steps: string,
+  metres: string | undefined
+): number {
+  return metres !== undefined
+    ? Number.parseFloat(metres)
+    : Number.parseInt(steps) * MEDIUM_STEP_METRES;
+}
+
+// "5.6 m", "18 ft" or, for steps, just the count
+export function formatDistance(
+  metres: number,
+  unit: DistanceUnit,
+  strideMetres: number = MEDIUM_STEP_METRES
+): string {
+  switch (unit) {
+    case "STEPS":
+      return Math.round(metres / strideMetres).toString();
+    case "METRES":
+      return metres < 10
+        ? `${Math.round(metres * 10) / 10} m`
+        : `${Math.round(metres)} m`;
+    case "FEET":
+      return `${Math.round(metres * FEET_PER_METRE)} ft`;
+  }
+}
+
+// Minutes a walker with this stride needs to cover the distance
+export function estimateWalkingMinutes(
+  metres: number,
+  strideMetres: number = MEDIUM_STEP_METRES,
+  cadence: number = DEFAULT_CADENCE_STEPS_PER_MINUTE
+): number {
+  return metres / strideMetres / cadence;
+}
+
+export function formatWalkingTime(minutes: number): string {
+  if (minutes < 1) return "under a minute";
+  const rounded = Math.round(minutes);
+  return `about ${rounded} ${rounded === 1 ? "minute" : "minutes"}`;
+}
@@ -0,0 +1,47 @@
+// Keeps every instruction set saved before versions were kept as its
+// path's version 1, published when the set was, as saving a newer version
+// would. Safe to run more than once: sets that already have a version are
+// left alone. Run `bun run db:migrate-instructions` first so the versions
+// get tokens.
+
+import prisma from "./index";
+
+const sets = await prisma.instructionSet.findMany({
+  where: { version: null },
+});
+
+let backfilled = 0;
+for (const set of sets) {
+  await prisma.$transaction(async (tx) => {
+    const snapshot = await tx.instructionVersion.create({
+      data: {
+        pathId: set.pathId,
+        version: 1,
+        descriptiveInstructions: set.descriptiveInstructions ?? [],
+        conciseInstructions: set.conciseInstructions ?? [],
+        source:
+          set.provider === null
+            ? "LEGACY"
+            : set.provider === "template"
+            ? "TEMPLATE"
+            : "LLM",
+        provider: set.provider,
+        model: set.model,
+        fingerprint: set.fingerprint,
+        authorId: set.requestedById,
+        createdAt: set.updatedAt,
+      },
+    });
+    await tx.instructionSet.update({
+      where: { id: set.id },
+      data: {
+        version: 1,
+        ...(set.status === "PUBLISHED" && { publishedVersionId: snapshot.id }),
+      },
+    });
+  });
+  backfilled++;
+}
+
+console.log(`Backfilled ${backfilled} of ${sets.length} instruction sets`);
+await prisma.$disconnect();
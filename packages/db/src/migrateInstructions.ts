@@ -0,0 +1,47 @@
+// Converts instruction sets saved as {{n}} strings into token lists. Safe to
+// run more than once: sets that already have tokens are left alone.
+
+import prisma from "./index";
+import { parseInstructionText } from "@sightmap/common/instructions";
+
+const sets = await prisma.instructionSet.findMany({
+  select: {
+    id: true,
+    descriptiveInstructions: true,
+    conciseInstructions: true,
+    legacyDescriptiveInstructions: true,
+    legacyConciseInstructions: true,
+  },
+});
+
+const isEmpty = (value: unknown) => !Array.isArray(value) || value.length === 0;
+
+let migrated = 0;
+for (const set of sets) {
+  const hasLegacy =
+    set.legacyDescriptiveInstructions.length > 0 ||
+    set.legacyConciseInstructions.length > 0;
+  if (
+    !hasLegacy ||
+    !isEmpty(set.descriptiveInstructions) ||
+    !isEmpty(set.conciseInstructions)
+  ) {
+    continue;
+  }
+
+  await prisma.instructionSet.update({
+    where: { id: set.id },
+    data: {
+      descriptiveInstructions: set.legacyDescriptiveInstructions.map(
+        parseInstructionText
+      ),
+      conciseInstructions: set.legacyConciseInstructions.map(
+        parseInstructionText
+      ),
+    },
+  });
+  migrated++;
+}
+
+console.log(`Migrated ${migrated} of ${sets.length} instruction sets`);
+await prisma.$disconnect();